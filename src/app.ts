@@ -1,5 +1,4 @@
 import express from "express";
-import rateLimit from "express-rate-limit";
 import mongoose from "mongoose";
 import dotenv from "dotenv";
 import http from "http";
@@ -12,6 +11,11 @@ import expressListEndpoints from "express-list-endpoints";
 import calendarRoutes from "./routes/calendarRoutes";
 import chatRoutes from "./routes/chatRoutes";
 import notificationRoutes from "./routes/notificationRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import userRoutes from "./routes/userRoutes";
+import podRoutes from "./routes/podRoutes";
+import feedbackRoutes from "./routes/feedbackRoutes";
+import { authLimiter, queueLimiter, chatLimiter } from "./middleware/rateLimit";
 import { initializeWebSocket } from "./ws";
 
 dotenv.config();
@@ -39,23 +43,19 @@ const corsOptions = {
 };
 app.use(cors(corsOptions));
 
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // Limit each IP to 100 requests per windowMs
-  message: "Too many requests from this IP, please try again later.",
-});
-
-// app.use(limiter);
-
 // 4. Body parsers
 app.use(express.json());
 
-// 5. Routes
-app.use("/api/auth", authRoutes);
-app.use("/api/queue", queueRoutes);
+// 5. Routes (rate limits are configured per route group)
+app.use("/api/auth", authLimiter, authRoutes);
+app.use("/api/queue", queueLimiter, queueRoutes);
 app.use("/api/calendar", calendarRoutes);
-app.use("/api/chat", chatRoutes);
+app.use("/api/chat", chatLimiter, chatRoutes);
 app.use("/api/notifications", notificationRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/pods", chatLimiter, podRoutes);
+app.use("/api/feedback", feedbackRoutes);
 
 // Health check
 app.get("/api/health", (req, res) => {
@@ -0,0 +1,275 @@
+// src/controllers/accountController.ts
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import Chat from "../models/ChatMessage";
+import CalendarEvent from "../models/CalendarEvent";
+import Notification from "../models/Notifications";
+import Queue from "../models/Queue";
+import QueueTransition from "../models/QueueTransition";
+import CallFeedback from "../models/CallFeedback";
+import Session from "../models/Session";
+import PersonalAccessToken from "../models/PersonalAccessToken";
+import PasswordReset from "../models/PasswordReset";
+import UserBlock from "../models/UserBlock";
+import UserReport from "../models/UserReport";
+import DateProposalThread from "../models/DateProposalThread";
+import MatchingRound from "../models/MatchingRound";
+import Pod from "../models/Pod";
+import { confirmIdentity } from "../utils/auth";
+import { decryptText } from "../utils/encryption";
+import { runInTransaction } from "../utils/transaction";
+import cloudinary, { getPublicIdFromUrl } from "../utils/cloudinary";
+import logger from "../utils/logger";
+import { resetLoginFailures } from "../utils/loginThrottle";
+import { leavePod } from "../utils/pods";
+import {
+  eraseUserEntries,
+  transitionEntries,
+} from "../utils/queueStateMachine";
+import { io } from "../ws";
+
+const EXPORT_USER_FIELDS =
+  "-password -__v -twoFactorSecret -twoFactorPendingSecret -twoFactorBackupCodes -twoFactorLastStep";
+
+/**
+ * Messages sent over REST were stored in plain text, socket messages are
+ * encrypted; return readable content for both.
+ */
+function readMessageContent(content: string): string {
+  try {
+    return decryptText(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Export everything stored about the signed-in user as a JSON download.
+ */
+export const exportAccountData = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const user = await User.findById(userId).select(EXPORT_USER_FIELDS).lean();
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    const [
+      chats,
+      events,
+      notifications,
+      queueEntries,
+      sessions,
+      accessTokens,
+      blocks,
+      reports,
+      dateProposals,
+      pods,
+      queueTransitions,
+      feedbackGiven,
+    ] = await Promise.all([
+      Chat.find({ participants: userId }).lean(),
+      CalendarEvent.find({
+        $or: [
+          { organizer: userId },
+          { participant: userId },
+          { attendees: userId },
+        ],
+      }).lean(),
+      Notification.find({ user: userId }).sort("-createdAt").lean(),
+      Queue.find({ $or: [{ user: userId }, { matchedWith: userId }] })
+        .sort("createdAt")
+        .lean(),
+      Session.find({ user: userId })
+        .select("-tokenHash -__v")
+        .sort("-createdAt")
+        .lean(),
+      PersonalAccessToken.find({ user: userId })
+        .select("-tokenHash -__v")
+        .sort("-createdAt")
+        .lean(),
+      UserBlock.find({ blocker: userId }).select("-__v").lean(),
+      UserReport.find({ reporter: userId })
+        .select("reported reason details status createdAt")
+        .lean(),
+      DateProposalThread.find({ participants: userId }).lean(),
+      Pod.find({ members: userId }).lean(),
+      QueueTransition.find({ user: userId })
+        .select("-__v")
+        .sort("createdAt")
+        .lean(),
+      CallFeedback.find({ reviewer: userId }).select("-__v").lean(),
+    ]);
+
+    const archive = {
+      exportedAt: new Date(),
+      user,
+      chats: chats.map((chat) => ({
+        id: chat._id,
+        participants: chat.participants,
+        lastMessageAt: chat.lastMessageAt,
+        messages: chat.messages.map((msg) => ({
+          sender: msg.sender,
+          content: readMessageContent(msg.content),
+          read: msg.read,
+          createdAt: msg.createdAt,
+        })),
+      })),
+      calendarEvents: events,
+      notifications,
+      queueHistory: queueEntries,
+      queueTransitions,
+      sessions,
+      personalAccessTokens: accessTokens,
+      blockedUsers: blocks,
+      reportsFiled: reports,
+      dateProposals,
+      pods,
+      feedbackGiven: feedbackGiven.map((feedback) => ({
+        ...feedback,
+        notes: feedback.notes && readMessageContent(feedback.notes),
+      })),
+    };
+
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="relate15-export-${userId}.json"`
+    );
+    res.status(200).json(archive);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Permanently delete the signed-in user's account.
+ * - Requires the current password, or a reauthentication token from the
+ *   identity provider for SSO accounts without one.
+ * - Deletes their chats, events, notifications, queue entries, sessions,
+ *   access tokens, blocks, call feedback and the reports they filed. Leaves
+ *   their pods, removing their group chat messages.
+ * - Releases partners from active matches and removes the user from every
+ *   other user's `matches`.
+ */
+export const deleteAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { password, reauthToken } = req.body;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    if (!(await confirmIdentity(user, { password, reauthToken }))) {
+      res.status(400).json({ message: "Invalid credentials." });
+      return;
+    }
+
+    // Leaving first lets the remaining members keep (or close) their pod
+    if (await Pod.exists({ members: userId, status: "active" })) {
+      await leavePod({ id: userId, name: user.name });
+    }
+
+    const releasedPartners = await runInTransaction(async (session) => {
+      // Partners with an open match against this user go back to idle.
+      // The actor is left empty so the log keeps no trace of this user.
+      const partnerEntries = await transitionEntries(
+        { matchedWith: userId, user: { $ne: userId } },
+        "release",
+        { actor: null, reason: "partner_deleted_account", session }
+      );
+      await eraseUserEntries(userId, session);
+
+      await Chat.deleteMany({ participants: userId, pod: null }, { session });
+      // Group chats stay with the other members, minus this user's messages
+      await Chat.updateMany(
+        { pod: { $ne: null }, participants: userId },
+        { $pull: { participants: userId, messages: { sender: userId } } },
+        { session }
+      );
+      await CalendarEvent.deleteMany(
+        { $or: [{ organizer: userId }, { participant: userId }], pod: null },
+        { session }
+      );
+      await CalendarEvent.updateMany(
+        { attendees: userId },
+        { $pull: { attendees: userId, confirmedBy: userId } },
+        { session }
+      );
+      await Pod.updateMany(
+        { members: userId },
+        { $pull: { members: userId } },
+        { session }
+      );
+      await Notification.deleteMany({ user: userId }, { session });
+      await Session.deleteMany({ user: userId }, { session });
+      await PersonalAccessToken.deleteMany({ user: userId }, { session });
+      await PasswordReset.deleteMany({ user: userId }, { session });
+      await UserBlock.deleteMany(
+        { $or: [{ blocker: userId }, { blocked: userId }] },
+        { session }
+      );
+      await UserReport.deleteMany({ reporter: userId }, { session });
+      await DateProposalThread.deleteMany(
+        { participants: userId },
+        { session }
+      );
+      await CallFeedback.deleteMany(
+        { $or: [{ reviewer: userId }, { reviewee: userId }] },
+        { session }
+      );
+      await MatchingRound.updateMany(
+        { status: "open", participants: userId },
+        { $pull: { participants: userId } },
+        { session }
+      );
+
+      await User.updateMany(
+        { matches: userId },
+        {
+          $pull: { matches: userId },
+          $unset: {
+            [`matchCount.${userId}`]: 1,
+            [`lastMatchedAt.${userId}`]: 1,
+          },
+        },
+        { session }
+      );
+      await User.deleteOne({ _id: userId }, { session });
+
+      return partnerEntries.map((entry) => entry.user.toString());
+    });
+
+    await resetLoginFailures(user.email);
+
+    const publicId =
+      user.profilePicturePublicId ||
+      (user.profilePictureUrl && getPublicIdFromUrl(user.profilePictureUrl));
+    if (publicId) {
+      try {
+        await cloudinary.uploader.destroy(publicId);
+      } catch (error) {
+        logger.error("Deleting profile picture failed", { error, publicId });
+      }
+    }
+
+    releasedPartners.forEach((partnerId) =>
+      io?.to(partnerId).emit("queueUpdated", { state: "idle" })
+    );
+    io?.in(userId).disconnectSockets(true);
+
+    res.status(200).json({ message: "Account deleted." });
+  } catch (error) {
+    next(error);
+  }
+};
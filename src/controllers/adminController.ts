@@ -0,0 +1,409 @@
+// src/controllers/adminController.ts
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import UserReport from "../models/UserReport";
+import QueueTransition from "../models/QueueTransition";
+import CallFeedback from "../models/CallFeedback";
+import { FeedbackSummary, getFeedbackSummaries } from "../utils/feedback";
+import { revokeUserSessions } from "../utils/auth";
+import { isRole, roleRank } from "../utils/permissions";
+import { io } from "../ws";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const ADMIN_USER_FIELDS = "-password -__v";
+
+/**
+ * Escapes user input before using it inside a regular expression.
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Staff can only act on users ranked below them, so a moderator can't
+ * suspend an admin. Responds and returns false when the target is missing
+ * or out of reach.
+ */
+async function ensureCanManage(
+  req: Request,
+  res: Response,
+  userId: string
+): Promise<boolean> {
+  const target = await User.findById(userId).select("role");
+  if (!target) {
+    res.status(404).json({ message: "User not found" });
+    return false;
+  }
+  if (roleRank(target.role) >= roleRank(req.user?.role)) {
+    res.status(403).json({
+      message: "You can only manage users with a lower role than yours.",
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * List and search users.
+ * Supports `q` (name/email search), `role`, `suspended`, `page` and `limit`.
+ */
+export const listUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { q, role, suspended } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const filter: Record<string, any> = {};
+    if (typeof q === "string" && q.trim()) {
+      const pattern = new RegExp(escapeRegex(q.trim()), "i");
+      filter.$or = [{ name: pattern }, { email: pattern }];
+    }
+    if (typeof role === "string" && role) {
+      filter.role = role.toLowerCase();
+    }
+    if (suspended === "true") {
+      filter.suspendedAt = { $ne: null };
+    } else if (suspended === "false") {
+      filter.suspendedAt = null;
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .select(ADMIN_USER_FIELDS)
+        .sort("-createdAt")
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    res.status(200).json({ users, total, page, limit });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a single user by id.
+ */
+export const getUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.userId).select(
+      ADMIN_USER_FIELDS
+    );
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    res.status(200).json(user);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Suspend a user ranked below the actor.
+ * - Blocks login and API access.
+ * - Revokes all of the user's sessions and disconnects their sockets.
+ */
+export const suspendUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    if (userId === req.user?.id) {
+      res.status(400).json({ message: "You cannot suspend yourself." });
+      return;
+    }
+    if (!(await ensureCanManage(req, res, userId))) return;
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      {
+        suspendedAt: new Date(),
+        suspensionReason: req.body.reason || "",
+      },
+      { new: true }
+    ).select(ADMIN_USER_FIELDS);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    await revokeUserSessions(userId, "suspended");
+    io?.in(userId).disconnectSockets(true);
+
+    res.status(200).json({ message: "User suspended.", user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lift the suspension of a user ranked below the actor.
+ */
+export const unsuspendUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!(await ensureCanManage(req, res, req.params.userId))) return;
+
+    const user = await User.findByIdAndUpdate(
+      req.params.userId,
+      { $unset: { suspendedAt: 1, suspensionReason: 1 } },
+      { new: true }
+    ).select(ADMIN_USER_FIELDS);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    res.status(200).json({ message: "User reinstated.", user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change the role of a user ranked below the actor. Nobody can grant a
+ * role above their own.
+ */
+export const updateUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    if (!isRole(role)) {
+      res.status(400).json({ message: "Invalid role." });
+      return;
+    }
+    if (userId === req.user?.id) {
+      res.status(400).json({ message: "You cannot change your own role." });
+      return;
+    }
+    if (roleRank(role) > roleRank(req.user?.role)) {
+      res
+        .status(403)
+        .json({ message: "You cannot grant a role above your own." });
+      return;
+    }
+    if (!(await ensureCanManage(req, res, userId))) return;
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { role },
+      { new: true, runValidators: true }
+    ).select(ADMIN_USER_FIELDS);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    res.status(200).json({ message: "Role updated.", user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List user reports, newest first. Filter with `status` (default: open).
+ */
+export const listReports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = (req.query.status as string) || "open";
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const filter = status === "all" ? {} : { status };
+
+    const [reports, total] = await Promise.all([
+      UserReport.find(filter)
+        .populate("reporter", "name email")
+        .populate("reported", "name email suspendedAt")
+        .sort("-createdAt")
+        .skip((page - 1) * limit)
+        .limit(limit),
+      UserReport.countDocuments(filter),
+    ]);
+
+    res.status(200).json({ reports, total, page, limit });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resolve a report (actioned or dismissed).
+ */
+export const resolveReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status, note } = req.body;
+    const report = await UserReport.findByIdAndUpdate(
+      req.params.reportId,
+      {
+        status,
+        resolutionNote: note || "",
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      },
+      { new: true, runValidators: true }
+    );
+    if (!report) {
+      res.status(404).json({ message: "Report not found" });
+      return;
+    }
+    res.status(200).json({ message: "Report updated.", report });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Read the queue transition log, newest first. Filter with `userId` or
+ * `entryId`.
+ */
+export const listQueueTransitions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, entryId } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const filter = {
+      ...(typeof userId === "string" && userId && { user: userId }),
+      ...(typeof entryId === "string" && entryId && { entry: entryId }),
+    };
+
+    const [transitions, total] = await Promise.all([
+      QueueTransition.find(filter)
+        .populate("user actor", "name email")
+        .sort("-createdAt")
+        .skip((page - 1) * limit)
+        .limit(limit),
+      QueueTransition.countDocuments(filter),
+    ]);
+
+    res.status(200).json({ transitions, total, page, limit });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Feedback received, aggregated per user. Sorted by `sort`: "rating"
+ * (lowest average first, default), "meetAgain" (lowest rate first) or
+ * "count" (most reviewed first). Private notes are never included.
+ */
+export const listFeedbackSummaries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const sorters: Record<
+      string,
+      (a: FeedbackSummary, b: FeedbackSummary) => number
+    > = {
+      rating: (a, b) => a.averageRating - b.averageRating,
+      meetAgain: (a, b) => a.wouldMeetAgainRate - b.wouldMeetAgainRate,
+      count: (a, b) => b.count - a.count,
+    };
+    const sorter = sorters[req.query.sort as string] || sorters.rating;
+
+    const summaries = (await getFeedbackSummaries()).sort(sorter);
+    const pageItems = summaries.slice((page - 1) * limit, page * limit);
+    const users = await User.find({
+      _id: { $in: pageItems.map((summary) => summary.userId) },
+    }).select("name email department suspendedAt");
+    const byId = new Map(users.map((user) => [user.id, user]));
+
+    res.status(200).json({
+      summaries: pageItems.map((summary) => ({
+        ...summary,
+        user: byId.get(summary.userId) || null,
+      })),
+      total: summaries.length,
+      page,
+      limit,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * A user's feedback summary and the most recent feedback they received,
+ * without the reviewers' private notes.
+ */
+export const getUserFeedback = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    if (!(await User.exists({ _id: userId }))) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    const [[summary], received] = await Promise.all([
+      getFeedbackSummaries([userId]),
+      CallFeedback.find({ reviewee: userId, status: "submitted" })
+        .select("reviewer scheduledFor rating wouldMeetAgain submittedAt")
+        .populate("reviewer", "name email")
+        .sort("-submittedAt")
+        .limit(MAX_PAGE_SIZE),
+    ]);
+
+    res.status(200).json({
+      summary: summary || {
+        userId,
+        count: 0,
+        averageRating: null,
+        wouldMeetAgainRate: null,
+      },
+      received,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,8 +1,34 @@
 import { Request, Response, NextFunction } from "express";
-import User from "../models/User";
-import { hashPassword, comparePasswords, generateToken } from "../utils/auth";
+import User, { IUser } from "../models/User";
+import {
+  hashPassword,
+  comparePasswords,
+  confirmIdentity,
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  hashToken,
+  verifyAccessToken,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  ACCESS_TOKEN_EXPIRATION,
+  TWO_FACTOR_CHALLENGE_EXPIRATION,
+  REFRESH_TOKEN_EXPIRATION,
+} from "../utils/auth";
 import logger from "../utils/logger";
-import jwt from "jsonwebtoken";
+import { sendMail } from "../utils/mailer";
+import PasswordReset from "../models/PasswordReset";
+import { consumeSecondFactor, findUserWithTwoFactor } from "../utils/twoFactor";
+import {
+  checkLoginAllowed,
+  recordLoginAttempt,
+  recordLoginSuccess,
+  ThrottleStatus,
+} from "../utils/loginThrottle";
+import crypto from "crypto";
 import cloudinary from "../utils/cloudinary";
 import mongoose from "mongoose";
 
@@ -12,13 +38,29 @@ declare module "express" {
   }
 }
 
-const JWT_SECRET = process.env.JWT_SECRET!;
-const TOKEN_EXPIRATION = 3 * 24 * 60 * 60; // 3 days
-const REFRESH_WINDOW = 30 * 60; // 30 minutes
+const PASSWORD_RESET_EXPIRATION = 60 * 60; // 1 hour
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
+const VERIFICATION_RESEND_INTERVAL = 5 * 60; // 5 minutes
+
+/**
+ * Mails a signed verification link to the user and records when it was sent.
+ */
+async function sendVerificationEmail(user: IUser) {
+  const token = generateEmailVerificationToken(user);
+  const verifyLink = `${CLIENT_URL}/verify-email?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "Verify your Relate15 email address",
+    text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below. It expires in 24 hours.\n\n${verifyLink}`,
+  });
+  user.verificationSentAt = new Date();
+  await user.save();
+}
 
 export const register = async (req: Request, res: Response) => {
   try {
-    const { email, password, name, role, interests, bio } = req.body;
+    // Role is never taken from the client; admins assign it later
+    const { email, password, name, interests, bio } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ email });
@@ -28,12 +70,14 @@ export const register = async (req: Request, res: Response) => {
 
     // Handle file upload
     let profilePictureUrl = "";
+    let profilePicturePublicId: string | undefined;
     if (req.file) {
       const result = await cloudinary.uploader.upload(req.file.path, {
         folder: "relate15/profile_pictures",
         transformation: { width: 500, height: 500, crop: "limit" },
       });
       profilePictureUrl = result.secure_url;
+      profilePicturePublicId = result.public_id;
     }
 
     // Create new user
@@ -42,26 +86,40 @@ export const register = async (req: Request, res: Response) => {
       email,
       password: hashedPassword,
       name,
-      role: role || "user",
+      role: "user",
       interests: interests?.split(",").map((i: string) => i.trim()) || [],
       bio,
       profilePictureUrl,
+      profilePicturePublicId,
     });
 
     await newUser.save();
 
-    // Generate token
-    const token = generateToken(newUser);
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      // Registration still succeeds; the user can ask for a new link
+      logger.error("Sending verification email failed", { error: mailError });
+    }
+
+    // Open a session and issue the first token pair
+    const { token, refreshToken } = await createSession(newUser, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
     return res.status(201).json({
       message: "User registered successfully.",
       token,
-      expiresIn: TOKEN_EXPIRATION,
+      expiresIn: ACCESS_TOKEN_EXPIRATION,
+      refreshToken,
+      refreshExpiresIn: REFRESH_TOKEN_EXPIRATION,
       user: {
         id: newUser.id,
         email: newUser.email,
         name: newUser.name,
         role: newUser.role,
         profilePictureUrl: newUser.profilePictureUrl,
+        emailVerified: newUser.emailVerified,
       },
     });
   } catch (error) {
@@ -72,27 +130,75 @@ export const register = async (req: Request, res: Response) => {
   }
 };
 
+const rejectThrottled = (
+  res: Response,
+  throttle: ThrottleStatus,
+  message: string
+) => {
+  res.setHeader("Retry-After", throttle.retryAfter.toString());
+  return res.status(429).json({ message, retryAfter: throttle.retryAfter });
+};
+
 export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
+    const ip = req.ip;
+
+    // Checked, then counted before the password is, so parallel guesses
+    // can't get past the lockout
+    let throttle = await checkLoginAllowed(email, ip);
+    if (throttle.allowed) throttle = await recordLoginAttempt(email, ip);
+    if (!throttle.allowed) {
+      return rejectThrottled(
+        res,
+        throttle,
+        throttle.locked
+          ? "Too many failed login attempts. Account temporarily locked."
+          : "Too many failed login attempts. Please wait before retrying."
+      );
+    }
+
     const user = await User.findOne({ email });
 
     if (!user || !(await comparePasswords(password, user.password))) {
       return res.status(400).json({ message: "Invalid credentials." });
     }
 
-    const token = generateToken(user);
+    if (user.suspendedAt) {
+      return res.status(403).json({ message: "Account suspended." });
+    }
+
+    // With 2FA enabled, the password only earns a challenge for step two
+    if (user.twoFactorEnabled) {
+      return res.status(200).json({
+        message: "Two-factor authentication required.",
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user),
+        expiresIn: TWO_FACTOR_CHALLENGE_EXPIRATION,
+      });
+    }
+
+    // Counters are only cleared once a full login succeeded, so a known
+    // password can't be used to reset the 2FA attempt budget
+    await recordLoginSuccess(email, ip);
+    const { token, refreshToken } = await createSession(user, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
 
     return res.status(200).json({
       message: "Logged in successfully.",
       token,
-      expiresIn: TOKEN_EXPIRATION,
+      expiresIn: ACCESS_TOKEN_EXPIRATION,
+      refreshToken,
+      refreshExpiresIn: REFRESH_TOKEN_EXPIRATION,
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
         role: user.role,
         profilePictureUrl: user.profilePictureUrl,
+        emailVerified: user.emailVerified,
       },
     });
   } catch (error) {
@@ -101,6 +207,76 @@ export const login = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Second login step for accounts with 2FA.
+ * Exchanges the challenge token plus a TOTP or backup code for a session.
+ */
+export const loginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    let challenge: { id: string };
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken);
+    } catch (error) {
+      return res
+        .status(401)
+        .json({ message: "Login challenge is invalid or has expired." });
+    }
+
+    const user = await findUserWithTwoFactor(challenge.id);
+    if (!user || !user.twoFactorEnabled) {
+      return res
+        .status(401)
+        .json({ message: "Login challenge is invalid or has expired." });
+    }
+    if (user.suspendedAt) {
+      return res.status(403).json({ message: "Account suspended." });
+    }
+
+    let throttle = await checkLoginAllowed(user.email, req.ip);
+    if (throttle.allowed) {
+      throttle = await recordLoginAttempt(user.email, req.ip);
+    }
+    if (!throttle.allowed) {
+      return rejectThrottled(
+        res,
+        throttle,
+        "Too many failed attempts. Please wait before retrying."
+      );
+    }
+
+    if (!(await consumeSecondFactor(user, code))) {
+      return res.status(400).json({ message: "Invalid verification code." });
+    }
+
+    await recordLoginSuccess(user.email, req.ip);
+    const { token, refreshToken } = await createSession(user, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    return res.status(200).json({
+      message: "Logged in successfully.",
+      token,
+      expiresIn: ACCESS_TOKEN_EXPIRATION,
+      refreshToken,
+      refreshExpiresIn: REFRESH_TOKEN_EXPIRATION,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        profilePictureUrl: user.profilePictureUrl,
+        emailVerified: user.emailVerified,
+      },
+    });
+  } catch (error) {
+    logger.error("Two-factor login failed", { error });
+    return res.status(500).json({ message: "Server error during login" });
+  }
+};
+
 export const verify = async (req: Request, res: Response) => {
   const authHeader = req.headers.authorization;
 
@@ -112,13 +288,7 @@ export const verify = async (req: Request, res: Response) => {
   const token = authHeader.split(" ")[1];
 
   try {
-    console.log("🔍 Verifying token:", token);
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      id: string;
-      exp: number;
-    };
-
-    console.log("✅ Token decoded:", decoded);
+    const decoded = await verifyAccessToken(token);
 
     // ✅ FIX: Use `id` instead of `userId`
     if (!decoded.id) {
@@ -134,8 +304,6 @@ export const verify = async (req: Request, res: Response) => {
 
     const user = await User.findById(decoded.id).select("-password");
 
-    console.log("🔍 Database lookup result:", user);
-
     if (!user) {
       console.error("❌ User not found for ID:", decoded.id);
       return res.status(401).json({ message: "Invalid session" });
@@ -149,11 +317,288 @@ export const verify = async (req: Request, res: Response) => {
         name: user.name,
         role: user.role,
         profilePictureUrl: user.profilePictureUrl,
+        emailVerified: user.emailVerified,
       },
       expiresIn: decoded.exp - Math.floor(Date.now() / 1000),
     });
   } catch (error) {
-    console.error("❌ Token verification error:", error);
+    logger.debug("Token verification failed", {
+      error: (error as Error).message,
+    });
     return res.status(401).json({ message: "Invalid or expired token" });
   }
 };
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair.
+ * The presented refresh token is rotated and can't be used again.
+ */
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+      return res.status(400).json({ message: "Refresh token is required." });
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    return res.status(200).json({
+      message: "Token refreshed.",
+      token: result.token,
+      expiresIn: ACCESS_TOKEN_EXPIRATION,
+      refreshToken: result.refreshToken,
+      refreshExpiresIn: REFRESH_TOKEN_EXPIRATION,
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        name: result.user.name,
+        role: result.user.role,
+        profilePictureUrl: result.user.profilePictureUrl,
+        emailVerified: result.user.emailVerified,
+      },
+    });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error("Token refresh failed", { error });
+    return res.status(500).json({ message: "Server error during refresh" });
+  }
+};
+
+/**
+ * Revoke the session behind the current access token.
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, "logout");
+    }
+    return res.status(200).json({ message: "Logged out successfully." });
+  } catch (error) {
+    logger.error("Logout failed", { error });
+    return res.status(500).json({ message: "Server error during logout" });
+  }
+};
+
+/**
+ * Start a password reset.
+ * - Always answers with the same message so emails can't be enumerated.
+ * - Replaces any unused reset token with a fresh one and mails the link.
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  const genericResponse = {
+    message: "If that email is registered, a reset link has been sent.",
+  };
+
+  try {
+    const { email } = req.body;
+    const user = await User.findOne({ email });
+    if (!user) {
+      return res.status(200).json(genericResponse);
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    await PasswordReset.deleteMany({ user: user.id, usedAt: null });
+    await PasswordReset.create({
+      user: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_EXPIRATION * 1000),
+    });
+
+    const resetLink = `${CLIENT_URL}/reset-password?token=${token}`;
+    await sendMail({
+      to: user.email,
+      subject: "Reset your Relate15 password",
+      text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in one hour.\n\n${resetLink}\n\nIf you didn't ask for this, you can ignore this email.`,
+    });
+
+    return res.status(200).json(genericResponse);
+  } catch (error) {
+    logger.error("Forgot password failed", { error });
+    return res
+      .status(500)
+      .json({ message: "Server error during password reset request" });
+  }
+};
+
+/**
+ * Complete a password reset.
+ * - Redeems the single-use token.
+ * - Revokes every existing session so old tokens stop working.
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || !password) {
+      return res
+        .status(400)
+        .json({ message: "Token and new password are required." });
+    }
+
+    // Mark the token as used atomically so it can only be redeemed once
+    const resetEntry = await PasswordReset.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        usedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+    if (!resetEntry) {
+      return res
+        .status(400)
+        .json({ message: "Reset link is invalid or has expired." });
+    }
+
+    const user = await User.findById(resetEntry.user);
+    if (!user) {
+      return res
+        .status(400)
+        .json({ message: "Reset link is invalid or has expired." });
+    }
+
+    user.password = await hashPassword(password);
+    user.hasPassword = true;
+    await user.save();
+    await revokeUserSessions(user.id, "password_reset");
+
+    return res.status(200).json({
+      message: "Password has been reset. Please log in again.",
+    });
+  } catch (error) {
+    logger.error("Reset password failed", { error });
+    return res
+      .status(500)
+      .json({ message: "Server error during password reset" });
+  }
+};
+
+/**
+ * Confirm an email address using the signed link from the verification email.
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  const token = (req.body.token || req.query.token) as string | undefined;
+  if (!token) {
+    return res.status(400).json({ message: "Verification token is required." });
+  }
+
+  let decoded: { id: string; email: string };
+  try {
+    decoded = verifyEmailVerificationToken(token);
+  } catch (error) {
+    return res
+      .status(400)
+      .json({ message: "Verification link is invalid or has expired." });
+  }
+
+  try {
+    const user = await User.findById(decoded.id);
+    if (!user || user.email !== decoded.email) {
+      return res
+        .status(400)
+        .json({ message: "Verification link is invalid or has expired." });
+    }
+
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    return res.status(200).json({ message: "Email verified successfully." });
+  } catch (error) {
+    logger.error("Email verification failed", { error });
+    return res
+      .status(500)
+      .json({ message: "Server error during email verification" });
+  }
+};
+
+/**
+ * Send a new verification email, at most once every few minutes.
+ */
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+    if (user.emailVerified) {
+      return res.status(400).json({ message: "Email is already verified." });
+    }
+
+    const nextAllowedAt = user.verificationSentAt
+      ? user.verificationSentAt.getTime() + VERIFICATION_RESEND_INTERVAL * 1000
+      : 0;
+    if (nextAllowedAt > Date.now()) {
+      const retryAfter = Math.ceil((nextAllowedAt - Date.now()) / 1000);
+      res.setHeader("Retry-After", retryAfter.toString());
+      return res.status(429).json({
+        message: "Verification email was sent recently. Please wait.",
+        retryAfter,
+      });
+    }
+
+    await sendVerificationEmail(user);
+    return res.status(200).json({ message: "Verification email sent." });
+  } catch (error) {
+    logger.error("Resending verification email failed", { error });
+    return res
+      .status(500)
+      .json({ message: "Server error while sending verification email" });
+  }
+};
+
+/**
+ * Change the password of the signed-in user.
+ * - Requires the current password. SSO accounts without one send a
+ *   reauthentication token instead, which sets their first password.
+ * - Signs out every other session; the current one stays valid.
+ */
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword, reauthToken } = req.body;
+
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    if (
+      !(await confirmIdentity(user, {
+        password: currentPassword,
+        reauthToken,
+      }))
+    ) {
+      return res
+        .status(400)
+        .json({ message: "Current password is incorrect." });
+    }
+    if (
+      user.hasPassword &&
+      (await comparePasswords(newPassword, user.password))
+    ) {
+      return res.status(400).json({
+        message: "New password must be different from the current one.",
+      });
+    }
+
+    user.password = await hashPassword(newPassword);
+    user.hasPassword = true;
+    await user.save();
+
+    await revokeUserSessions(user.id, "password_change", req.user?.sessionId);
+    await PasswordReset.deleteMany({ user: user.id, usedAt: null });
+
+    return res.status(200).json({
+      message: "Password changed. Other sessions have been signed out.",
+    });
+  } catch (error) {
+    logger.error("Change password failed", { error });
+    return res
+      .status(500)
+      .json({ message: "Server error during password change" });
+  }
+};
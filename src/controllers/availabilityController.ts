@@ -0,0 +1,105 @@
+// src/controllers/availabilityController.ts
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import Queue from "../models/Queue";
+import { suggestSlots } from "../utils/availability";
+
+const AVAILABILITY_FIELDS = "timezone availability";
+
+/**
+ * Get the signed-in user's weekly availability.
+ */
+export const getAvailability = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.id).select(AVAILABILITY_FIELDS);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    res.status(200).json({
+      timezone: user.timezone,
+      availability: user.availability,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the signed-in user's weekly availability.
+ * Windows are wall-clock times in `timezone`.
+ */
+export const updateAvailability = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { timezone, availability } = req.body;
+    const user = await User.findByIdAndUpdate(
+      req.user?.id,
+      {
+        ...(timezone !== undefined && { timezone }),
+        availability: availability.map(({ day, start, end }: any) => ({
+          day,
+          start,
+          end,
+        })),
+      },
+      { new: true, runValidators: true }
+    ).select(AVAILABILITY_FIELDS);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    res.status(200).json({
+      timezone: user.timezone,
+      availability: user.availability,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Suggest call slots in which the user and their current match are both
+ * available.
+ */
+export const getSuggestedSlots = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const queueEntry = await Queue.findOne({
+      user: userId,
+      status: { $in: ["matched", "booked"] },
+    });
+    if (!queueEntry?.matchedWith) {
+      res.status(400).json({ message: "No active match." });
+      return;
+    }
+
+    const [user, partner] = await Promise.all([
+      User.findById(userId).select(AVAILABILITY_FIELDS),
+      User.findById(queueEntry.matchedWith).select(AVAILABILITY_FIELDS),
+    ]);
+    if (!user || !partner) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    res.status(200).json({
+      matchedUserId: partner.id,
+      partnerTimezone: partner.timezone,
+      slots: suggestSlots(user, partner),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
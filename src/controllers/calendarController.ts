@@ -5,6 +5,18 @@ import { io } from "../ws";
 import User from "../models/User";
 import CalendarEvent, { ICalendarEvent } from "../models/CalendarEvent";
 import Notification from "../models/Notifications";
+import { generateUniqueVideoLink } from "../utils/videoLink";
+import { requestFeedback } from "../utils/feedback";
+import { completePod } from "../utils/pods";
+
+/**
+ * Everyone invited to an event: the pod's attendees for group calls,
+ * otherwise the organizer and the participant.
+ */
+const getEventAttendees = (event: ICalendarEvent): string[] =>
+  event.pod
+    ? event.attendees.map((id) => id.toString())
+    : [event.organizer.toString(), event.participant.toString()];
 
 // Create a new video call event
 export const createEvent = async (
@@ -92,11 +104,8 @@ export const confirmEvent = async (
     }
 
     // Validate participant
-    if (
-      ![event.organizer.toString(), event.participant.toString()].includes(
-        user.id
-      )
-    ) {
+    const attendees = getEventAttendees(event);
+    if (!attendees.includes(user.id)) {
       res.status(403).json({ message: "Not authorized to confirm this event" });
       return;
     }
@@ -110,30 +119,43 @@ export const confirmEvent = async (
     // Update confirmation by converting user.id to ObjectId
     event.confirmedBy.push(new mongoose.Types.ObjectId(user.id));
 
-    if (event.confirmedBy.length === 2) {
+    if (event.confirmedBy.length === attendees.length) {
       event.status = "confirmed";
 
-      // Notify both participants
+      // Notify all participants
       const notificationMessage = `Video call confirmed for ${event.scheduledTime.toISOString()}`;
 
-      const notifications = [
-        new Notification({
-          user: event.organizer,
-          message: notificationMessage,
-          type: "call_confirmation",
-        }),
-        new Notification({
-          user: event.participant,
-          message: notificationMessage,
-          type: "call_confirmation",
-        }),
-      ];
+      const notifications = attendees.map(
+        (attendee) =>
+          new Notification({
+            user: attendee,
+            message: notificationMessage,
+            type: "call_confirmation",
+          })
+      );
 
       await Promise.all(notifications.map((n) => n.save({ session })));
 
+      // Pod calls have no queue confirmation step: the pod is completed
+      // and feedback is requested here
+      const podId = event.pod?.toString();
+      if (podId) {
+        await requestFeedback(attendees, event.scheduledTime, session);
+        await completePod(podId, user.id, session);
+      }
+
       // Send real-time updates
-      io.to(event.organizer.toString()).emit("callConfirmed", event);
-      io.to(event.participant.toString()).emit("callConfirmed", event);
+      attendees.forEach((attendee) => {
+        io.to(attendee).emit("callConfirmed", event);
+        if (podId) {
+          io.to(attendee).emit("podUpdated", { podId, status: "completed" });
+          io.to(attendee).emit("queueUpdated", {
+            state: "idle",
+            message: "Your group call is confirmed.",
+            reason: "pod_completed",
+          });
+        }
+      });
     }
 
     await event.save({ session });
@@ -162,9 +184,13 @@ export const getEvents = async (
     }
 
     const events = await CalendarEvent.find({
-      $or: [{ organizer: user.id }, { participant: user.id }],
+      $or: [
+        { organizer: user.id },
+        { participant: user.id },
+        { attendees: user.id },
+      ],
     })
-      .populate("organizer participant", "-password")
+      .populate("organizer participant attendees", "-password")
       .sort("-scheduledTime");
 
     res.status(200).json(events);
@@ -276,9 +302,3 @@ export const cancelEvent = async (
     session.endSession();
   }
 };
-
-// Helper function for video link generation
-const generateUniqueVideoLink = (): string => {
-  const randomId = Math.random().toString(36).substring(2, 15);
-  return `${process.env.VIDEO_BASE_URL}/${randomId}`;
-};
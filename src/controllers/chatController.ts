@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import mongoose from "mongoose";
 import Chat from "../models/ChatMessage";
+import { isBlockedPair } from "../utils/blocks";
 
 /**
  * Send a message between matched users.
@@ -24,11 +25,17 @@ export const sendMessage = async (
       return;
     }
 
+    if (await isBlockedPair(userId, receiverId)) {
+      res.status(403).json({ message: "Chat not available with this user." });
+      return;
+    }
+
     const senderObjectId = new mongoose.Types.ObjectId(userId);
     const receiverObjectId = new mongoose.Types.ObjectId(receiverId);
 
     let chat = await Chat.findOne({
       participants: { $all: [senderObjectId, receiverObjectId] },
+      pod: null, // Group chats have their own endpoints
     });
 
     if (!chat) {
@@ -81,6 +88,7 @@ export const markChatMessagesAsRead = async (
 
     const chat = await Chat.findOne({
       participants: { $all: [userId, receiverId] },
+      pod: null,
     });
 
     if (!chat) {
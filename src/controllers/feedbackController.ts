@@ -0,0 +1,60 @@
+// src/controllers/feedbackController.ts
+import { Request, Response, NextFunction } from "express";
+import * as feedback from "../utils/feedback";
+
+/**
+ * List feedback requests the user can answer now.
+ */
+export const listPendingFeedback = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.status(200).json(await feedback.listPendingFeedback(req.user?.id));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the feedback the user submitted, including their private notes.
+ */
+export const listSubmittedFeedback = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.status(200).json(await feedback.listSubmittedFeedback(req.user?.id));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Submit feedback for a call: rating, "would meet again" and private notes.
+ */
+export const submitFeedback = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { rating, wouldMeetAgain, notes } = req.body;
+    const submitted = await feedback.submitFeedback(
+      req.user?.id,
+      req.params.feedbackId,
+      { rating: Number(rating), wouldMeetAgain, notes }
+    );
+    res
+      .status(200)
+      .json({ message: "Thanks for your feedback.", feedback: submitted });
+  } catch (error: any) {
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,235 @@
+// src/controllers/oidcController.ts
+import { Request, Response } from "express";
+import crypto from "crypto";
+import User from "../models/User";
+import OidcState from "../models/OidcState";
+import {
+  createSession,
+  generateReauthenticationToken,
+  hashPassword,
+} from "../utils/auth";
+import {
+  buildAuthorizationUrl,
+  createAuthorizationSecrets,
+  exchangeCodeForClaims,
+  getOidcIssuer,
+  isOidcEnabled,
+  mapClaimsToInterests,
+  mapClaimsToRole,
+  OidcClaims,
+  OIDC_STATE_EXPIRATION,
+} from "../utils/oidc";
+import logger from "../utils/logger";
+
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
+
+/**
+ * Finds the user linked to the IdP subject, links an existing account with
+ * the same (IdP-verified) email, or provisions a new one.
+ * - The mapped role is applied on every login, so it can go down as well
+ *   as up.
+ * - IdP interests only seed profiles that have none; after that the user's
+ *   own edits win.
+ */
+async function findOrProvisionUser(claims: OidcClaims) {
+  const issuer = getOidcIssuer();
+  const role = mapClaimsToRole(claims);
+  const interests = mapClaimsToInterests(claims);
+
+  let user = await User.findOne({
+    oidcIssuer: issuer,
+    oidcSubject: claims.sub,
+  });
+
+  if (!user && claims.email) {
+    user = await User.findOne({ email: claims.email });
+    if (user) {
+      // Only link by email when the IdP vouches for the address
+      if (claims.email_verified !== true) {
+        throw {
+          status: 409,
+          message:
+            "An account with this email exists, but the identity provider has not verified the address.",
+        };
+      }
+      user.oidcIssuer = issuer;
+      user.oidcSubject = claims.sub;
+    }
+  }
+
+  if (!user) {
+    if (!claims.email) {
+      throw {
+        status: 400,
+        message: "The identity provider did not share an email address.",
+      };
+    }
+    user = new User({
+      email: claims.email,
+      // SSO users never sign in with a password; store an unguessable one
+      password: await hashPassword(crypto.randomBytes(32).toString("hex")),
+      hasPassword: false,
+      name: claims.name || claims.email.split("@")[0],
+      role: "user",
+      oidcIssuer: issuer,
+      oidcSubject: claims.sub,
+    });
+  }
+
+  if (role) user.role = role;
+  if (interests && !user.interests.length) user.interests = interests;
+  if (claims.email_verified === true && !user.emailVerified) {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+  }
+
+  await user.save();
+  return user;
+}
+
+/**
+ * Start SSO: redirect to the identity provider with PKCE.
+ */
+export const oidcLogin = async (req: Request, res: Response) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ message: "Single sign-on is not enabled." });
+  }
+
+  try {
+    const secrets = createAuthorizationSecrets();
+    await OidcState.create({
+      ...secrets,
+      expiresAt: new Date(Date.now() + OIDC_STATE_EXPIRATION * 1000),
+    });
+
+    return res.redirect(await buildAuthorizationUrl(secrets));
+  } catch (error) {
+    logger.error("Starting SSO login failed", { error });
+    return res.status(502).json({ message: "Identity provider unavailable." });
+  }
+};
+
+/**
+ * Start reauthentication for a signed-in SSO user: returns the provider URL,
+ * which forces a fresh sign-in there. The callback hands back a short-lived
+ * `reauthToken` that replaces the password for sensitive actions.
+ */
+export const oidcReauth = async (req: Request, res: Response) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ message: "Single sign-on is not enabled." });
+  }
+
+  try {
+    const user = await User.findById(req.user?.id);
+    if (!user?.oidcSubject || user.oidcIssuer !== getOidcIssuer()) {
+      return res.status(400).json({
+        message: "This account is not linked to the identity provider.",
+      });
+    }
+
+    const secrets = createAuthorizationSecrets();
+    await OidcState.create({
+      ...secrets,
+      purpose: "reauthentication",
+      user: user.id,
+      expiresAt: new Date(Date.now() + OIDC_STATE_EXPIRATION * 1000),
+    });
+
+    const url = await buildAuthorizationUrl(secrets, { forceLogin: true });
+    return res.status(200).json({ url });
+  } catch (error) {
+    logger.error("Starting SSO reauthentication failed", { error });
+    return res.status(502).json({ message: "Identity provider unavailable." });
+  }
+};
+
+/**
+ * Checks that the reauthentication came from the linked IdP account and
+ * that the provider really signed the user in again just now.
+ */
+async function confirmReauthentication(userId: string, claims: OidcClaims) {
+  const user = await User.findById(userId);
+  if (
+    !user ||
+    user.oidcIssuer !== getOidcIssuer() ||
+    user.oidcSubject !== claims.sub
+  ) {
+    throw {
+      status: 403,
+      message: "Signed in as a different identity provider account.",
+    };
+  }
+  const authAge = Date.now() / 1000 - (claims.auth_time || 0);
+  if (authAge > OIDC_STATE_EXPIRATION) {
+    throw {
+      status: 403,
+      message: "The identity provider did not confirm a fresh sign-in.",
+    };
+  }
+  return user;
+}
+
+/**
+ * SSO callback: redeem the code, provision/link the user and hand the
+ * token pair to the client in the URL fragment. Reauthentication requests
+ * get a `reauthToken` instead.
+ */
+export const oidcCallback = async (req: Request, res: Response) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ message: "Single sign-on is not enabled." });
+  }
+
+  const { code, state, error } = req.query as Record<string, string>;
+  if (error) {
+    return res.status(400).json({ message: `Sign-in was rejected: ${error}` });
+  }
+  if (!code || !state) {
+    return res.status(400).json({ message: "Missing code or state." });
+  }
+
+  try {
+    // State is single use: delete it as we read it
+    const pending = await OidcState.findOneAndDelete({
+      state,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!pending) {
+      return res
+        .status(400)
+        .json({ message: "Sign-in request is invalid or has expired." });
+    }
+
+    const claims = await exchangeCodeForClaims(
+      code,
+      pending.codeVerifier,
+      pending.nonce
+    );
+
+    if (pending.purpose === "reauthentication") {
+      const user = await confirmReauthentication(String(pending.user), claims);
+      const fragment = new URLSearchParams({
+        reauthToken: generateReauthenticationToken(user),
+      });
+      return res.redirect(`${CLIENT_URL}/sso/reauth#${fragment.toString()}`);
+    }
+
+    const user = await findOrProvisionUser(claims);
+    if (user.suspendedAt) {
+      return res.status(403).json({ message: "Account suspended." });
+    }
+
+    const { token, refreshToken } = await createSession(user, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    const fragment = new URLSearchParams({ token, refreshToken });
+    return res.redirect(`${CLIENT_URL}/sso/callback#${fragment.toString()}`);
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error("SSO callback failed", { error });
+    return res.status(502).json({ message: "Single sign-on failed." });
+  }
+};
@@ -0,0 +1,100 @@
+// src/controllers/personalAccessTokenController.ts
+import { Request, Response, NextFunction } from "express";
+import PersonalAccessToken, {
+  IPersonalAccessToken,
+} from "../models/PersonalAccessToken";
+import { generatePersonalAccessToken } from "../utils/personalAccessTokens";
+
+const DEFAULT_EXPIRATION_DAYS = 90;
+
+/**
+ * Shapes a token for listing; never includes the hash.
+ */
+function toTokenSummary(pat: IPersonalAccessToken) {
+  return {
+    id: pat.id,
+    name: pat.name,
+    prefix: pat.prefix,
+    scopes: pat.scopes,
+    expiresAt: pat.expiresAt,
+    lastUsedAt: pat.lastUsedAt || null,
+    createdAt: pat.createdAt,
+  };
+}
+
+/**
+ * Create a personal access token. The plain token is only returned here.
+ */
+export const createPersonalAccessToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, scopes, expiresInDays } = req.body;
+    const days = expiresInDays || DEFAULT_EXPIRATION_DAYS;
+
+    const { token, tokenHash, prefix } = generatePersonalAccessToken();
+    const pat = await PersonalAccessToken.create({
+      user: req.user?.id,
+      name,
+      tokenHash,
+      prefix,
+      scopes: [...new Set<string>(scopes)],
+      expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+    });
+
+    res.status(201).json({
+      message: "Token created. Copy it now; it won't be shown again.",
+      token,
+      ...toTokenSummary(pat),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the signed-in user's active personal access tokens.
+ */
+export const listPersonalAccessTokens = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tokens = await PersonalAccessToken.find({
+      user: req.user?.id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort("-createdAt");
+
+    res.status(200).json(tokens.map(toTokenSummary));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke a personal access token.
+ */
+export const revokePersonalAccessToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const pat = await PersonalAccessToken.findOneAndUpdate(
+      { _id: req.params.tokenId, user: req.user?.id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+    if (!pat) {
+      res.status(404).json({ message: "Token not found" });
+      return;
+    }
+    res.status(200).json({ message: "Token revoked." });
+  } catch (error) {
+    next(error);
+  }
+};
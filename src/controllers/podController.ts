@@ -0,0 +1,112 @@
+// src/controllers/podController.ts
+import { Request, Response, NextFunction } from "express";
+import * as pods from "../utils/pods";
+
+/**
+ * Sends `{status, message}` errors thrown by the pod operations as
+ * responses and passes everything else on.
+ */
+function handleError(error: any, res: Response, next: NextFunction) {
+  if (error.status) {
+    res.status(error.status).json({ message: error.message });
+    return;
+  }
+  next(error);
+}
+
+/**
+ * Get the user's active pod.
+ */
+export const getCurrentPod = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const pod = await pods.getActivePod(req.user?.id);
+    if (!pod) {
+      res.status(404).json({ message: "You are not in a pod." });
+      return;
+    }
+    res.status(200).json(pod);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the pod's group chat history.
+ */
+export const getPodMessages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const messages = await pods.getPodMessages(req.user?.id, req.params.podId);
+    res.status(200).json(messages);
+  } catch (error) {
+    handleError(error, res, next);
+  }
+};
+
+/**
+ * Send a message to the pod's group chat.
+ */
+export const sendPodMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const message = await pods.sendPodMessage(
+      req.user?.id,
+      req.params.podId,
+      req.body.content
+    );
+    res
+      .status(200)
+      .json({ message: "Message sent successfully", newMessage: message });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+};
+
+/**
+ * Schedule (or reschedule) the pod's group call.
+ */
+export const schedulePodCall = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const event = await pods.schedulePodEvent(
+      { id: req.user?.id, name: req.user?.name },
+      req.params.podId,
+      new Date(req.body.scheduledTime)
+    );
+    res.status(200).json({ message: "Group call scheduled.", event });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+};
+
+/**
+ * Leave the active pod.
+ */
+export const leavePod = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await pods.leavePod(
+      { id: req.user?.id, name: req.user?.name },
+      req.body.reason
+    );
+    res.status(200).json(result);
+  } catch (error) {
+    handleError(error, res, next);
+  }
+};
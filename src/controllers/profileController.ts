@@ -0,0 +1,149 @@
+// src/controllers/profileController.ts
+import { Request, Response, NextFunction } from "express";
+import User, { IUser } from "../models/User";
+import cloudinary, { getPublicIdFromUrl } from "../utils/cloudinary";
+import logger from "../utils/logger";
+import { io } from "../ws";
+
+/**
+ * Shapes the signed-in user's own profile.
+ */
+function toProfile(user: IUser) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    bio: user.bio,
+    interests: user.interests,
+    department: user.department,
+    profilePictureUrl: user.profilePictureUrl,
+    autoRequeue: user.autoRequeue,
+    emailVerified: user.emailVerified,
+    twoFactorEnabled: user.twoFactorEnabled,
+    createdAt: user.createdAt,
+  };
+}
+
+/**
+ * Pushes the public profile fields to the user's matches.
+ */
+function broadcastProfileUpdate(user: IUser) {
+  const rooms = [
+    user.id.toString(),
+    ...user.matches.map((id) => id.toString()),
+  ];
+  io?.to(rooms).emit("profileUpdated", {
+    id: user.id,
+    name: user.name,
+    bio: user.bio,
+    interests: user.interests,
+    department: user.department,
+    profilePictureUrl: user.profilePictureUrl,
+  });
+}
+
+/**
+ * Get the signed-in user's profile.
+ */
+export const getMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    res.status(200).json(toProfile(user));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update name, bio, department, interests and queue preferences.
+ * `interests` can be an array or a comma-separated string.
+ */
+export const updateMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    const { name, bio, department, interests, autoRequeue } = req.body;
+    if (name !== undefined) user.name = name.trim();
+    if (bio !== undefined) user.bio = bio;
+    if (department !== undefined) user.department = department.trim();
+    if (autoRequeue !== undefined) user.autoRequeue = autoRequeue;
+    if (interests !== undefined) {
+      const list: string[] = Array.isArray(interests)
+        ? interests
+        : interests.split(",");
+      user.interests = list.map((i) => i.trim()).filter(Boolean);
+    }
+
+    await user.save();
+    broadcastProfileUpdate(user);
+
+    res.status(200).json(toProfile(user));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the profile picture.
+ * The new image is uploaded by the Cloudinary parser; the old asset is deleted.
+ */
+export const updateProfilePicture = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ message: "Profile picture is required." });
+      return;
+    }
+
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    const oldPublicId =
+      user.profilePicturePublicId ||
+      (user.profilePictureUrl && getPublicIdFromUrl(user.profilePictureUrl));
+
+    user.profilePictureUrl = req.file.path;
+    user.profilePicturePublicId = req.file.filename;
+    await user.save();
+
+    if (oldPublicId && oldPublicId !== user.profilePicturePublicId) {
+      try {
+        await cloudinary.uploader.destroy(oldPublicId);
+      } catch (error) {
+        // The profile is already updated; an orphaned asset is not fatal
+        logger.error("Deleting old profile picture failed", {
+          error,
+          publicId: oldPublicId,
+        });
+      }
+    }
+
+    broadcastProfileUpdate(user);
+    res.status(200).json(toProfile(user));
+  } catch (error) {
+    next(error);
+  }
+};
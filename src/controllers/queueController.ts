@@ -1,11 +1,25 @@
 import { Request, Response, NextFunction } from "express";
 import mongoose from "mongoose";
 import Queue from "../models/Queue";
-import User, { IUser } from "../models/User";
+import User from "../models/User";
+import Pod from "../models/Pod";
+import Chat from "../models/ChatMessage";
 import Notification from "../models/Notifications";
 import { io } from "../ws";
-
-const MAX_RETRIES = 3;
+import { runInTransaction } from "../utils/transaction";
+import { findPod, recordMatch, POD_SETTINGS } from "../matching";
+import { getWaitingExpiry } from "../utils/queueExpiry";
+import * as queueActions from "../utils/queueActions";
+import { getBlockedUserIds } from "../utils/blocks";
+import * as dateProposals from "../utils/dateProposals";
+import { requestFeedback } from "../utils/feedback";
+import {
+  ACTIVE_BOOKING_MESSAGE,
+  ACTIVE_QUEUE_STATES,
+  createEntry,
+  transitionEntries,
+  transitionEntry,
+} from "../utils/queueStateMachine";
 
 /* ===========================
    HELPER FUNCTIONS
@@ -24,26 +38,6 @@ function getUserId(req: Request, res: Response): string | null {
   return userId;
 }
 
-/**
- * Runs a callback inside a MongoDB transaction.
- */
-async function runInTransaction<T>(
-  callback: (session: mongoose.ClientSession) => Promise<T>
-): Promise<T> {
-  const session = await mongoose.startSession();
-  session.startTransaction();
-  try {
-    const result = await callback(session);
-    await session.commitTransaction();
-    return result;
-  } catch (error) {
-    await session.abortTransaction();
-    throw error;
-  } finally {
-    session.endSession();
-  }
-}
-
 /**
  * Transforms a user document (changing _id to id and removing _id).
  */
@@ -67,18 +61,34 @@ export const bookCall = async (
   const userId = getUserId(req, res);
   if (!userId) return;
 
-  // Prevent booking if there's an existing active queue entry (waiting or matched)
-  const existingEntry = await Queue.findOne({
-    user: userId,
-    status: { $in: ["waiting", "matched"] },
-  });
-  if (existingEntry) {
-    res.status(400).json({
-      message:
-        "You already have an active booking. Complete your current call or cancel it before booking a new one.",
-    });
+  try {
+    const result = await queueActions.bookCall(userId);
+    res.status(200).json(result);
     return;
+  } catch (error: any) {
+    console.error("❌ Error booking call:", error);
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
   }
+};
+
+/**
+ * Book a group call: join a pod of `size` people (default POD_SIZE).
+ * - Forms the pod right away if enough people are waiting in group mode.
+ * - Creates the pod's group chat and records the match between every pair.
+ * - Otherwise adds the user to the group waiting queue.
+ */
+export const bookGroupCall = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = getUserId(req, res);
+  if (!userId) return;
+  const size = Number(req.body.size) || POD_SETTINGS.defaultSize;
 
   try {
     const result = await runInTransaction(async (session) => {
@@ -86,78 +96,170 @@ export const bookCall = async (
       if (!currentUser) {
         throw { status: 404, message: "User not found" };
       }
+      // Checked before forming a pod around the user; createEntry and the
+      // unique index still catch a concurrent booking
+      const existingEntry = await Queue.exists({
+        user: userId,
+        status: { $in: ACTIVE_QUEUE_STATES },
+      }).session(session);
+      if (existingEntry) {
+        throw { status: 400, message: ACTIVE_BOOKING_MESSAGE };
+      }
 
-      let matchFound = false;
-      let matchedUser: IUser | null = null;
-      let retries = 0;
+      const match = await findPod(currentUser, size, session);
 
-      while (retries < MAX_RETRIES && !matchFound) {
-        const waitingQueueEntry = await Queue.findOneAndUpdate(
-          {
-            status: "waiting",
-            user: {
-              $nin: [
-                userId,
-                ...currentUser.matches.map((id: any) => id.toString()),
-              ],
+      if (match) {
+        const memberIds = [
+          userId,
+          ...match.members.map((member) => member.id as string),
+        ];
+        const [chat] = await Chat.create(
+          [{ participants: memberIds, pod: match.podId, messages: [] }],
+          { session }
+        );
+        const [pod] = await Pod.create(
+          [
+            {
+              _id: match.podId,
+              members: memberIds,
+              size,
+              chat: chat.id,
+              sharedInterests: match.sharedInterests,
             },
+          ],
+          { session }
+        );
+        await createEntry(
+          userId,
+          "match",
+          { mode: "group", pod: pod.id },
+          { actor: userId, reason: "pod_formed", session }
+        );
+        for (let i = 0; i < memberIds.length; i++) {
+          for (let j = i + 1; j < memberIds.length; j++) {
+            await recordMatch(memberIds[i], memberIds[j], session);
+          }
+        }
+        const notifications = await Notification.create(
+          memberIds.map((member) => ({
+            user: member,
+            message: `You have been matched into a group of ${memberIds.length}!`,
+            type: "pod_match",
+          })),
+          { session, ordered: true }
+        );
+
+        return {
+          state: "matched",
+          message: "Pod formed!",
+          pod: {
+            id: pod.id,
+            size,
+            chatId: chat.id,
+            sharedInterests: match.sharedInterests,
+            score: match.score,
           },
-          { status: "matched", matchedWith: userId },
-          { new: true, sort: { createdAt: 1 }, session }
-        ).populate("user");
-
-        if (waitingQueueEntry?.user) {
-          // First cast to unknown then to IUser to satisfy TypeScript
-          matchedUser = waitingQueueEntry.user as unknown as IUser;
-
-          // Add each other to matches
-          await User.findByIdAndUpdate(
-            userId,
-            { $addToSet: { matches: matchedUser.id } },
-            { session }
-          );
-          await User.findByIdAndUpdate(
-            matchedUser.id,
-            { $addToSet: { matches: userId } },
-            { session }
-          );
+          members: [currentUser, ...match.members].map((member) => ({
+            id: member.id,
+            name: member.name,
+            email: member.email,
+            bio: member.bio,
+            interests: member.interests,
+            profilePictureUrl: member.profilePictureUrl,
+          })),
+          notifications,
+        };
+      }
 
-          // Create matched queue entries for both users
-          await Queue.create(
-            [{ user: userId, status: "matched", matchedWith: matchedUser.id }],
-            { session }
-          );
-          await Queue.create(
-            [{ user: matchedUser.id, status: "matched", matchedWith: userId }],
-            { session }
-          );
+      const queueEntry = await createEntry(
+        userId,
+        "join",
+        { mode: "group", podSize: size, expiresAt: getWaitingExpiry() },
+        { actor: userId, reason: "booked_group_call", session }
+      );
+      return {
+        state: "waiting",
+        message: "Added to the group queue",
+        expiresAt: queueEntry.expiresAt,
+        size,
+      };
+    });
 
-          matchFound = true;
-        }
-        retries++;
+    if (result.state === "matched" && result.pod) {
+      const { notifications, ...payload } = result;
+      for (const member of payload.members) {
+        io.to(member.id).emit("podFormed", {
+          pod: payload.pod,
+          members: payload.members,
+        });
       }
-
-      if (matchFound && matchedUser) {
-        return { state: "matched", message: "Match found!", matchedUser };
+      for (const notification of notifications) {
+        io.to(notification.user.toString()).emit("notification", notification);
       }
-      // If no match, add user to the waiting queue
-      const queueEntry = new Queue({ user: userId, status: "waiting" });
-      await queueEntry.save({ session });
-      return { state: "waiting", message: "Added to queue" };
+      res.status(200).json(payload);
+      return;
+    }
+    io.to(userId).emit("queueUpdated", {
+      state: "waiting",
+      mode: "group",
+      expiresAt: result.expiresAt,
     });
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("❌ Error booking group call:", error);
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * Leave the waiting queue.
+ */
+export const leaveQueue = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = getUserId(req, res);
+  if (!userId) return;
 
-    // Emit events after transaction completes
-    if (result.state === "matched" && result.matchedUser) {
-      io.to(userId)
-        .to(result.matchedUser.id.toString())
-        .emit("matchFound", { matchedUser: result.matchedUser });
-    } else {
-      io.to(userId).emit("queueUpdated", { state: "waiting" });
+  try {
+    const result = await queueActions.leaveQueue(userId);
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("❌ Error leaving queue:", error);
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
     }
+    next(error);
+  }
+};
+
+/**
+ * Cancel the current match.
+ * - Removes both users' queue entries.
+ * - Notifies the matched user via notification and WebSocket.
+ */
+export const cancelMatch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = getUserId(req, res);
+  if (!userId) return;
+
+  try {
+    const result = await queueActions.cancelMatch(
+      { id: userId, name: req.user?.name },
+      req.body.reason
+    );
     res.status(200).json(result);
-    return;
   } catch (error: any) {
-    console.error("❌ Error booking call:", error);
+    console.error("❌ Error cancelling match:", error);
     if (error.status) {
       res.status(error.status).json({ message: error.message });
       return;
@@ -190,8 +292,12 @@ export const getCurrentMatch = async (
     const user = await User.findById(userId)
       .populate("matches", "-password -__v")
       .lean();
-    if (user?.matches && user.matches.length > 0) {
-      res.status(200).json(user.matches.map(transformUser));
+    const blockedIds = await getBlockedUserIds(userId);
+    const matches = (user?.matches || []).filter(
+      (match: any) => !blockedIds.includes(match._id.toString())
+    );
+    if (matches.length > 0) {
+      res.status(200).json(matches.map(transformUser));
       return;
     }
 
@@ -205,7 +311,7 @@ export const getCurrentMatch = async (
 
 /**
  * Book an appointment.
- * - Sets appointmentStatus to "booked" on both matched queue entries.
+ * - Moves both matched queue entries to "booked".
  * - Notifies the matched user in real time.
  */
 export const bookAppointment = async (
@@ -231,17 +337,16 @@ export const bookAppointment = async (
       }
       const matchedUserId = queueEntry.matchedWith.toString();
 
-      // Update both users' queue entries with an appointment flag.
-      // (Assumes your Queue schema supports an optional "appointmentStatus" field.)
-      await Queue.findOneAndUpdate(
-        { user: userId, status: "matched" },
-        { appointmentStatus: "booked" },
-        { session }
-      );
-      await Queue.findOneAndUpdate(
-        { user: matchedUserId, status: "matched" },
-        { appointmentStatus: "booked" },
-        { session }
+      // Update both users' queue entries
+      await transitionEntries(
+        {
+          $or: [
+            { user: userId, matchedWith: matchedUserId },
+            { user: matchedUserId, matchedWith: userId },
+          ],
+        },
+        "book",
+        { actor: userId, reason: "appointment_booked", session }
       );
 
       return {
@@ -294,15 +399,16 @@ export const skipAppointment = async (
       }
       const matchedUserId = queueEntry.matchedWith.toString();
 
-      // Remove the current user's queue entry.
-      await Queue.deleteOne({ user: userId, status: "matched" }).session(
-        session
-      );
-      // For the matched user, update their queue entry to idle and clear the match.
-      await Queue.findOneAndUpdate(
-        { user: matchedUserId, status: "matched" },
-        { status: "idle", matchedWith: null, appointmentStatus: null },
-        { session }
+      // Both users go back to idle.
+      await transitionEntry({ _id: queueEntry._id }, "skip", {
+        actor: userId,
+        reason: "appointment_skipped",
+        session,
+      });
+      await transitionEntry(
+        { user: matchedUserId, matchedWith: userId },
+        "skip",
+        { actor: userId, reason: "partner_skipped", session }
       );
 
       // Optionally, remove the match from both users' match lists here if desired.
@@ -331,6 +437,8 @@ export const skipAppointment = async (
 /**
  * Confirm an appointment.
  * - Removes both users' queue entries.
+ * - Schedules post-call feedback requests for both users when a call was
+ *   scheduled.
  * - Creates a notification for the matched user.
  * - Notifies both parties via WebSocket.
  */
@@ -348,7 +456,7 @@ export const confirmAppointment = async (
       await runInTransaction(async (session) => {
         const queueEntry = await Queue.findOne({
           user: userId,
-          status: "matched",
+          status: { $in: ["matched", "booked"] },
         }).session(session);
         if (!queueEntry || !queueEntry.matchedWith) {
           throw {
@@ -359,10 +467,26 @@ export const confirmAppointment = async (
         const matchedUserId = queueEntry.matchedWith.toString();
 
         // Remove both users' queue entries.
-        await Queue.deleteMany({
-          user: { $in: [userId, matchedUserId] },
-          status: "matched",
-        }).session(session);
+        await transitionEntries(
+          {
+            $or: [
+              { user: userId, matchedWith: matchedUserId },
+              { user: matchedUserId, matchedWith: userId },
+            ],
+          },
+          "complete",
+          { actor: userId, reason: "appointment_confirmed", session }
+        );
+
+        // Ask both users how it went once the call time has passed. A
+        // match confirmed without a scheduled call has nothing to rate.
+        if (queueEntry.appointment) {
+          await requestFeedback(
+            [userId, matchedUserId],
+            queueEntry.appointment,
+            session
+          );
+        }
 
         // Create a notification for the matched user.
         const matchedUser = await User.findById(matchedUserId).session(session);
@@ -413,7 +537,7 @@ export const resetMatches = async (
     await runInTransaction(async (session) => {
       await User.findByIdAndUpdate(
         userId,
-        { $set: { matches: [], matchCount: {} } },
+        { $set: { matches: [], matchCount: {}, lastMatchedAt: {} } },
         { session }
       );
     });
@@ -445,7 +569,15 @@ export const getMatchHistory = async (
       res.status(404).json({ message: "User not found" });
       return;
     }
-    res.status(200).json(user.matches.map(transformUser));
+    // Blocked users are hidden from the history
+    const blockedIds = await getBlockedUserIds(userId);
+    res
+      .status(200)
+      .json(
+        user.matches
+          .filter((match: any) => !blockedIds.includes(match._id.toString()))
+          .map(transformUser)
+      );
     return;
   } catch (error) {
     console.error("Error fetching match history:", error);
@@ -479,14 +611,26 @@ export const getMatchCounts = async (
 };
 
 /**
- * Confirm a date.
- * - Retrieves the current user's matched queue entry
- * - Saves the proposed date confirmation in that entry
- * - Checks the matching user's entry to see if they already confirmed the same date
- * - If both users have confirmed the same date, it removes both queue entries (setting the state back to idle)
- * - Otherwise, it returns a "waiting" state until the other user confirms
+ * Parses a date from the request body, answering 400 if it is missing or
+ * invalid.
  */
-export const confirmDate = async (
+function parseDate(value: unknown, res: Response): Date | null {
+  if (!value) {
+    res.status(400).json({ message: "Confirmed date is required." });
+    return null;
+  }
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    res.status(400).json({ message: "Invalid confirmed date format." });
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Propose one or more slots to the matched user (or counter their proposal).
+ */
+export const proposeDates = async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -494,91 +638,73 @@ export const confirmDate = async (
   const userId = getUserId(req, res);
   if (!userId) return;
 
-  const { confirmedDate } = req.body;
-  if (!confirmedDate) {
-    res.status(400).json({ message: "Confirmed date is required." });
-    return;
+  try {
+    const slots = [
+      ...new Set<number>(
+        req.body.slots.map((slot: string) => new Date(slot).getTime())
+      ),
+    ].map((time) => new Date(time));
+    const result = await dateProposals.proposeDates(userId, slots);
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("❌ Error proposing dates:", error);
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
   }
+};
 
-  const proposedDate = new Date(confirmedDate);
-  if (isNaN(proposedDate.getTime())) {
-    res.status(400).json({ message: "Invalid confirmed date format." });
-    return;
-  }
+/**
+ * Accept one slot of the matched user's proposal; books the appointment.
+ */
+export const acceptDateProposal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = getUserId(req, res);
+  if (!userId) return;
 
   try {
-    const result = await runInTransaction(async (session) => {
-      // Look up the current user's matched entry
-      const queueEntry = await Queue.findOne({
-        user: userId,
-        status: "matched",
-      }).session(session);
-      if (!queueEntry || !queueEntry.matchedWith) {
-        throw { status: 400, message: "No active match to confirm a date." };
-      }
-
-      // Save the provisional date for the current user
-      queueEntry.set("confirmedDate", proposedDate);
-      await queueEntry.save({ session });
-      const matchedUserId = queueEntry.matchedWith.toString();
+    const result = await dateProposals.acceptDateProposal(
+      userId,
+      req.params.proposalId,
+      new Date(req.body.slot)
+    );
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("❌ Error accepting date proposal:", error);
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
+  }
+};
 
-      // Retrieve the matched user's queue entry for their provisional date
-      const matchedQueueEntry = await Queue.findOne({
-        user: matchedUserId,
-        status: "matched",
-      }).session(session);
+/**
+ * Confirm a date.
+ * Single-date shorthand for the proposal thread: accepts the date if the
+ * matched user offered it, otherwise proposes it to them.
+ */
+export const confirmDate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = getUserId(req, res);
+  if (!userId) return;
 
-      let resultPayload;
-      if (matchedQueueEntry && matchedQueueEntry.get("confirmedDate")) {
-        const theirProposedDate = new Date(
-          matchedQueueEntry.get("confirmedDate")
-        );
-        if (theirProposedDate.getTime() === proposedDate.getTime()) {
-          // Both users have confirmed the same date.
-          // Update both entries to persist the booked appointment.
-          queueEntry.set({ appointment: proposedDate, status: "booked" });
-          await queueEntry.save({ session });
-          matchedQueueEntry.set({
-            appointment: proposedDate,
-            status: "booked",
-          });
-          await matchedQueueEntry.save({ session });
-          resultPayload = {
-            state: "booked",
-            message: "Both users confirmed the date. Appointment booked.",
-            myProposedDate: proposedDate,
-            theirProposedDate,
-            appointment: proposedDate,
-            matchedUserId,
-          };
-        } else {
-          // The dates do not match; wait for the partner to update as needed.
-          resultPayload = {
-            state: "matched",
-            message:
-              "Date confirmed. Awaiting confirmation from the other user.",
-            myProposedDate: proposedDate,
-            theirProposedDate,
-            matchedUserId,
-          };
-        }
-      } else {
-        // Other user hasn't yet proposed a date.
-        resultPayload = {
-          state: "matched",
-          message: "Date confirmed. Awaiting confirmation from the other user.",
-          myProposedDate: proposedDate,
-          matchedUserId,
-        };
-      }
-      return resultPayload;
-    });
+  const proposedDate = parseDate(req.body.confirmedDate, res);
+  if (!proposedDate) return;
 
-    // Emit real-time notifications to the involved users
-    io.to(userId).emit("queueUpdated", result);
-    if (result.matchedUserId) {
-      io.to(result.matchedUserId).emit("queueUpdated", result);
-    }
+  try {
+    const result = await dateProposals.proposeOrAcceptDate(
+      userId,
+      proposedDate
+    );
     res.status(200).json(result);
   } catch (error: any) {
     console.error("❌ Error confirming date:", error);
@@ -590,6 +716,10 @@ export const confirmDate = async (
   }
 };
 
+/**
+ * Update the proposed date. Same as `confirmDate`: the new date replaces the
+ * user's pending proposal unless it accepts one of the partner's slots.
+ */
 export const updateConfirmedDate = async (
   req: Request,
   res: Response,
@@ -598,84 +728,11 @@ export const updateConfirmedDate = async (
   const userId = getUserId(req, res);
   if (!userId) return;
 
-  const { confirmedDate } = req.body;
-  if (!confirmedDate) {
-    res.status(400).json({ message: "Confirmed date is required." });
-    return;
-  }
-
-  const updatedDate = new Date(confirmedDate);
-  if (isNaN(updatedDate.getTime())) {
-    res.status(400).json({ message: "Invalid confirmed date format." });
-    return;
-  }
+  const updatedDate = parseDate(req.body.confirmedDate, res);
+  if (!updatedDate) return;
 
   try {
-    const result = await runInTransaction(async (session) => {
-      // Find the user's current matched entry
-      const queueEntry = await Queue.findOne({
-        user: userId,
-        status: "matched",
-      }).session(session);
-      if (!queueEntry || !queueEntry.matchedWith) {
-        throw { status: 400, message: "No active match to update a date." };
-      }
-
-      // Update the provisional date for the current user
-      queueEntry.set("confirmedDate", updatedDate);
-      await queueEntry.save({ session });
-      const matchedUserId = queueEntry.matchedWith.toString();
-
-      // Get the matched user's queue entry
-      const matchedQueueEntry = await Queue.findOne({
-        user: matchedUserId,
-        status: "matched",
-      }).session(session);
-
-      let resultPayload;
-      if (matchedQueueEntry && matchedQueueEntry.get("confirmedDate")) {
-        const theirProposedDate = new Date(
-          matchedQueueEntry.get("confirmedDate")
-        );
-        if (theirProposedDate.getTime() === updatedDate.getTime()) {
-          // If the new dates match, update both to mark the appointment as booked.
-          queueEntry.set({ appointment: updatedDate, status: "booked" });
-          await queueEntry.save({ session });
-          matchedQueueEntry.set({ appointment: updatedDate, status: "booked" });
-          await matchedQueueEntry.save({ session });
-          resultPayload = {
-            state: "booked",
-            message: "Both users confirmed the date. Appointment booked.",
-            myProposedDate: updatedDate,
-            theirProposedDate,
-            appointment: updatedDate,
-            matchedUserId,
-          };
-        } else {
-          // Otherwise, simply update the provisional date and wait.
-          resultPayload = {
-            state: "matched",
-            message: "Date updated. Awaiting confirmation from the other user.",
-            myProposedDate: updatedDate,
-            theirProposedDate,
-            matchedUserId,
-          };
-        }
-      } else {
-        resultPayload = {
-          state: "matched",
-          message: "Date updated. Awaiting confirmation from the other user.",
-          myProposedDate: updatedDate,
-          matchedUserId,
-        };
-      }
-      return resultPayload;
-    });
-
-    io.to(userId).emit("queueUpdated", result);
-    if (result.matchedUserId) {
-      io.to(result.matchedUserId).emit("queueUpdated", result);
-    }
+    const result = await dateProposals.proposeOrAcceptDate(userId, updatedDate);
     res.status(200).json(result);
   } catch (error: any) {
     console.error("❌ Error updating confirmed date:", error);
@@ -687,6 +744,9 @@ export const updateConfirmedDate = async (
   }
 };
 
+/**
+ * Get the date proposal thread of the current match.
+ */
 export const getDateProposalStatus = async (
   req: Request,
   res: Response,
@@ -696,40 +756,7 @@ export const getDateProposalStatus = async (
   if (!userId) return;
 
   try {
-    // Look for an active queue entry that is either pending (matched) or booked.
-    const queueEntry = await Queue.findOne({
-      user: userId,
-      status: { $in: ["matched", "booked"] },
-    }).lean();
-    if (!queueEntry) {
-      res.status(200).json({
-        state: "idle",
-        message: "No active match or date proposal available.",
-      });
-      return;
-    }
-
-    const myProposedDate = queueEntry.confirmedDate || null;
-    const appointment = queueEntry.appointment || null;
-    let theirProposedDate = null;
-
-    if (queueEntry.matchedWith) {
-      const partnerEntry = await Queue.findOne({
-        user: queueEntry.matchedWith,
-        status: { $in: ["matched", "booked"] },
-      }).lean();
-      if (partnerEntry) {
-        theirProposedDate = partnerEntry.confirmedDate || null;
-      }
-    }
-    res.status(200).json({
-      state: queueEntry.status,
-      message: "Current proposal status retrieved.",
-      myProposedDate,
-      theirProposedDate,
-      appointment,
-      matchedUserId: queueEntry.matchedWith,
-    });
+    res.status(200).json(await dateProposals.getDateProposalState(userId));
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,206 @@
+// src/controllers/roundController.ts
+import { Request, Response, NextFunction } from "express";
+import MatchingRound from "../models/MatchingRound";
+import { previewRound, publishRound } from "../matching/rounds";
+import { envNumber } from "../utils/config";
+
+const DEFAULT_REPEAT_PENALTY = envNumber("ROUND_REPEAT_PENALTY", 5);
+const ROUND_FIELDS = "name cutoffAt recurrence status";
+
+/**
+ * Lists the rounds that are open for opt-in, with whether the current user
+ * has opted in.
+ */
+export const listOpenRounds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rounds = await MatchingRound.find({
+      status: "open",
+      cutoffAt: { $gt: new Date() },
+    })
+      .select(`${ROUND_FIELDS} participants`)
+      .sort("cutoffAt");
+
+    res.status(200).json(
+      rounds.map((round) => ({
+        id: round.id,
+        name: round.name,
+        cutoffAt: round.cutoffAt,
+        recurrence: round.recurrence,
+        participantCount: round.participants.length,
+        optedIn: round.participants.some((id) => id.equals(req.user?.id)),
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Opts the current user in to (`optIn = true`) or out of a round. Only
+ * possible before the round's cutoff.
+ */
+const setParticipation =
+  (optIn: boolean) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const round = await MatchingRound.findOneAndUpdate(
+        {
+          _id: req.params.roundId,
+          status: "open",
+          cutoffAt: { $gt: new Date() },
+        },
+        optIn
+          ? { $addToSet: { participants: req.user?.id } }
+          : { $pull: { participants: req.user?.id } },
+        { new: true }
+      ).select(ROUND_FIELDS);
+      if (!round) {
+        res.status(404).json({ message: "Round not found or closed." });
+        return;
+      }
+      res.status(200).json({
+        message: optIn ? "Opted in to the round." : "Opted out of the round.",
+        round,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const optInToRound = setParticipation(true);
+export const optOutOfRound = setParticipation(false);
+
+/**
+ * Admin: create a round.
+ */
+export const createRound = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, cutoffAt, recurrence, autoPublish, repeatPenalty } = req.body;
+    const round = await MatchingRound.create({
+      name,
+      cutoffAt,
+      recurrence,
+      autoPublish,
+      repeatPenalty: repeatPenalty ?? DEFAULT_REPEAT_PENALTY,
+      createdBy: req.user?.id,
+    });
+    res.status(201).json({ message: "Round created.", round });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Admin: list rounds, newest cutoff first. Filter with `status`.
+ */
+export const listRounds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status } = req.query;
+    const rounds = await MatchingRound.find(
+      typeof status === "string" && status ? { status } : {}
+    )
+      .sort("-cutoffAt")
+      .limit(100);
+    res.status(200).json(rounds);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Admin: change the configuration of an open round, or cancel it.
+ */
+export const updateRound = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, cutoffAt, recurrence, autoPublish, repeatPenalty, status } =
+      req.body;
+    const round = await MatchingRound.findOneAndUpdate(
+      { _id: req.params.roundId, status: "open" },
+      {
+        ...(name !== undefined && { name }),
+        ...(cutoffAt !== undefined && { cutoffAt }),
+        ...(recurrence !== undefined && { recurrence }),
+        ...(autoPublish !== undefined && { autoPublish }),
+        ...(repeatPenalty !== undefined && { repeatPenalty }),
+        ...(status === "cancelled" && { status }),
+      },
+      { new: true, runValidators: true }
+    );
+    if (!round) {
+      res.status(404).json({ message: "Round not found or not open." });
+      return;
+    }
+    res.status(200).json({ message: "Round updated.", round });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Admin: dry run. Returns the pairs publishing would create right now,
+ * without changing anything.
+ */
+export const previewRoundPairs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const round = await MatchingRound.findById(req.params.roundId);
+    if (!round) {
+      res.status(404).json({ message: "Round not found" });
+      return;
+    }
+    if (round.status !== "open") {
+      res.status(409).json({ message: "Round is not open." });
+      return;
+    }
+    const plan = await previewRound(round);
+    res.status(200).json({ round: round.id, ...plan });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Admin: publish a round now, regardless of its cutoff.
+ */
+export const publishRoundNow = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!(await MatchingRound.exists({ _id: req.params.roundId }))) {
+      res.status(404).json({ message: "Round not found" });
+      return;
+    }
+    const { round, plan } = await publishRound(
+      req.params.roundId,
+      req.user?.id
+    );
+    res.status(200).json({ message: "Round published.", round, plan });
+  } catch (error: any) {
+    if (error.status) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
+  }
+};
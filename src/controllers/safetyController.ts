@@ -0,0 +1,162 @@
+// src/controllers/safetyController.ts
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import Queue from "../models/Queue";
+import UserBlock from "../models/UserBlock";
+import UserReport from "../models/UserReport";
+import { cancelMatch } from "../utils/queueActions";
+import logger from "../utils/logger";
+import { separateUserSockets } from "../ws";
+
+/**
+ * Creates (or updates) a block, ends an active match with that user and
+ * takes both users' sockets out of each other's rooms.
+ */
+async function applyBlock(
+  blocker: { id: string; name: string },
+  blockedId: string,
+  reason?: string
+) {
+  await UserBlock.findOneAndUpdate(
+    { blocker: blocker.id, blocked: blockedId },
+    { ...(reason && { reason }) },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  const activeMatch = await Queue.exists({
+    user: blocker.id,
+    matchedWith: blockedId,
+    status: { $in: ["matched", "booked"] },
+  });
+  if (activeMatch) await cancelMatch(blocker);
+  await separateUserSockets(blocker.id, blockedId);
+}
+
+/**
+ * Block a user. They won't be matched with or able to message the blocker.
+ */
+export const blockUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    if (userId === req.user?.id) {
+      res.status(400).json({ message: "You cannot block yourself." });
+      return;
+    }
+    if (!(await User.exists({ _id: userId }))) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    await applyBlock(
+      { id: req.user.id, name: req.user.name },
+      userId,
+      req.body.reason
+    );
+    res.status(200).json({ message: "User blocked." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a block.
+ */
+export const unblockUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await UserBlock.deleteOne({
+      blocker: req.user?.id,
+      blocked: req.params.userId,
+    });
+    if (!result.deletedCount) {
+      res.status(404).json({ message: "User is not blocked." });
+      return;
+    }
+    res.status(200).json({ message: "User unblocked." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the users the signed-in user has blocked.
+ */
+export const listBlockedUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const blocks = await UserBlock.find({ blocker: req.user?.id })
+      .populate("blocked", "name profilePictureUrl")
+      .sort("-createdAt")
+      .lean();
+
+    res.status(200).json(
+      blocks.map((block) => ({
+        user: block.blocked,
+        reason: block.reason || null,
+        blockedAt: block.createdAt,
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Report a user to the moderators, optionally blocking them as well.
+ */
+export const reportUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { reason, details, block } = req.body;
+    if (userId === req.user?.id) {
+      res.status(400).json({ message: "You cannot report yourself." });
+      return;
+    }
+    if (!(await User.exists({ _id: userId }))) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+
+    const report = await UserReport.create({
+      reporter: req.user.id,
+      reported: userId,
+      reason,
+      details,
+    });
+    logger.warn("User reported", {
+      reportId: report.id,
+      reported: userId,
+      reason,
+    });
+
+    if (block) {
+      await applyBlock(
+        { id: req.user.id, name: req.user.name },
+        userId,
+        reason
+      );
+    }
+
+    res.status(201).json({
+      message: "Report submitted. Our moderators will review it.",
+      reportId: report.id,
+      blocked: Boolean(block),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
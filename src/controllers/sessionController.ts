@@ -0,0 +1,83 @@
+// src/controllers/sessionController.ts
+import { Request, Response, NextFunction } from "express";
+import Session from "../models/Session";
+import { revokeSession, revokeUserSessions } from "../utils/auth";
+
+/**
+ * List the signed-in user's active sessions (devices).
+ */
+export const listSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessions = await Session.find({
+      user: req.user?.id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort("-lastSeenAt")
+      .lean();
+
+    res.status(200).json(
+      sessions.map((session) => ({
+        id: session._id.toString(),
+        userAgent: session.userAgent || null,
+        ip: session.ip || null,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session._id.toString() === req.user?.sessionId,
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign out one session and disconnect its sockets.
+ */
+export const revokeOneSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const session = await Session.findOne({
+      _id: sessionId,
+      user: req.user?.id,
+      revokedAt: null,
+    });
+    if (!session) {
+      res.status(404).json({ message: "Session not found" });
+      return;
+    }
+
+    await revokeSession(session.id, "remote_sign_out");
+    res.status(200).json({ message: "Session signed out." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign out every session except the current one.
+ */
+export const revokeOtherSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await revokeUserSessions(
+      req.user?.id,
+      "remote_sign_out",
+      req.user?.sessionId
+    );
+    res.status(200).json({ message: "All other sessions signed out." });
+  } catch (error) {
+    next(error);
+  }
+};
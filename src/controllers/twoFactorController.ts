@@ -0,0 +1,161 @@
+// src/controllers/twoFactorController.ts
+import { Request, Response, NextFunction } from "express";
+import { confirmIdentity } from "../utils/auth";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../utils/totp";
+import {
+  consumeSecondFactor,
+  findUserWithTwoFactor,
+  generateBackupCodes,
+  TWO_FACTOR_ISSUER,
+} from "../utils/twoFactor";
+
+/**
+ * Start 2FA enrollment.
+ * Stores a pending secret and returns it with an otpauth:// URI for QR codes.
+ */
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await findUserWithTwoFactor(req.user?.id);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    if (user.twoFactorEnabled) {
+      res
+        .status(400)
+        .json({ message: "Two-factor authentication is already enabled." });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    res.status(200).json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm 2FA enrollment with the first code from the authenticator app.
+ * Returns the backup codes; they are only ever shown here.
+ */
+export const confirmTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const user = await findUserWithTwoFactor(req.user?.id);
+    if (!user) {
+      res.status(404).json({ message: "User not found" });
+      return;
+    }
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({ message: "No two-factor setup in progress." });
+      return;
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      res.status(400).json({ message: "Invalid verification code." });
+      return;
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = hashes;
+    user.twoFactorLastStep = step;
+    await user.save();
+
+    res.status(200).json({
+      message: "Two-factor authentication enabled.",
+      backupCodes: codes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace all backup codes. Requires a current TOTP or backup code.
+ */
+export const regenerateBackupCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const user = await findUserWithTwoFactor(req.user?.id);
+    if (!user || !user.twoFactorEnabled) {
+      res
+        .status(400)
+        .json({ message: "Two-factor authentication is not enabled." });
+      return;
+    }
+    if (!(await consumeSecondFactor(user, code))) {
+      res.status(400).json({ message: "Invalid verification code." });
+      return;
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+    user.twoFactorBackupCodes = hashes;
+    await user.save();
+
+    res.status(200).json({ backupCodes: codes });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turn 2FA off. Requires the password (or a reauthentication token for SSO
+ * accounts without one) and a current TOTP or backup code.
+ */
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password, reauthToken, code } = req.body;
+    const user = await findUserWithTwoFactor(req.user?.id);
+    if (!user || !user.twoFactorEnabled) {
+      res
+        .status(400)
+        .json({ message: "Two-factor authentication is not enabled." });
+      return;
+    }
+    if (!(await confirmIdentity(user, { password, reauthToken }))) {
+      res.status(400).json({ message: "Invalid credentials." });
+      return;
+    }
+    if (!(await consumeSecondFactor(user, code))) {
+      res.status(400).json({ message: "Invalid verification code." });
+      return;
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = [];
+    user.twoFactorLastStep = undefined;
+    await user.save();
+
+    res.status(200).json({ message: "Two-factor authentication disabled." });
+  } catch (error) {
+    next(error);
+  }
+};
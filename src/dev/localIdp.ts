@@ -0,0 +1,257 @@
+// src/dev/localIdp.ts
+// Local stand-in OpenID Connect provider for developing and testing SSO
+// without a real identity provider. Run it with `pnpm idp:local`, then set
+//   OIDC_ISSUER=http://localhost:4000
+//   OIDC_CLIENT_ID=relate15
+//   OIDC_REDIRECT_URI=http://localhost:5000/api/auth/oidc/callback
+//   OIDC_ROLE_MAP={"relate15-admins":"admin","relate15-moderators":"moderator"}
+// The sign-in page lists the test users; picking one completes the login.
+// There is no provider session, so every authorization is a fresh sign-in.
+// Never expose this server outside a development machine.
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { envNumber } from "../utils/config";
+
+interface LocalIdpUser {
+  sub: string;
+  email: string;
+  name: string;
+  email_verified?: boolean;
+  groups?: string[];
+  interests?: string[];
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  sub: string;
+  authTime: number;
+  expiresAt: number;
+}
+
+const PORT = envNumber("LOCAL_IDP_PORT", 4000);
+const ISSUER = process.env.LOCAL_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || "relate15";
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET;
+const REDIRECT_URI = process.env.OIDC_REDIRECT_URI;
+const CODE_EXPIRATION = 60 * 1000; // 1 minute
+const ID_TOKEN_EXPIRATION = 5 * 60; // 5 minutes
+
+// Override with LOCAL_IDP_USERS, a JSON array in the same shape
+const DEFAULT_USERS: LocalIdpUser[] = [
+  {
+    sub: "local-admin",
+    email: "admin@relate15.local",
+    name: "Local Admin",
+    email_verified: true,
+    groups: ["relate15-admins"],
+    interests: ["hiking", "chess"],
+  },
+  {
+    sub: "local-member",
+    email: "member@relate15.local",
+    name: "Local Member",
+    email_verified: true,
+    groups: [],
+    interests: ["cooking"],
+  },
+];
+
+const users: LocalIdpUser[] = process.env.LOCAL_IDP_USERS
+  ? JSON.parse(process.env.LOCAL_IDP_USERS)
+  : DEFAULT_USERS;
+
+// A fresh key pair per run; the relying party refetches the JWKS on an
+// unknown kid
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const KEY_ID = crypto.randomBytes(8).toString("hex");
+
+const codes = new Map<string, AuthorizationCode>();
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      }[char] as string)
+  );
+
+/**
+ * Checks the parameters shared by the sign-in page and its form post.
+ * Returns an error message, or null when the request is acceptable.
+ */
+const checkAuthorizationRequest = (params: Record<string, string>) => {
+  if (params.client_id !== CLIENT_ID) return "Unknown client_id.";
+  if (!params.redirect_uri) return "redirect_uri is required.";
+  if (REDIRECT_URI && params.redirect_uri !== REDIRECT_URI) {
+    return "redirect_uri is not registered for this client.";
+  }
+  if (params.response_type !== "code") return "Only response_type=code.";
+  if (!params.code_challenge || params.code_challenge_method !== "S256") {
+    return "PKCE with code_challenge_method=S256 is required.";
+  }
+  return null;
+};
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (req: Request, res: Response) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    scopes_supported: ["openid", "email", "profile"],
+    claims_supported: ["sub", "email", "email_verified", "name", "groups"],
+  });
+});
+
+app.get("/jwks", (req: Request, res: Response) => {
+  res.json({
+    keys: [
+      { ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256" },
+    ],
+  });
+});
+
+// Sign-in page: one button per test user
+app.get("/authorize", (req: Request, res: Response) => {
+  const params = req.query as Record<string, string>;
+  const problem = checkAuthorizationRequest(params);
+  if (problem) {
+    res.status(400).send(escapeHtml(problem));
+    return;
+  }
+
+  const hidden = Object.entries(params)
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(
+          String(value)
+        )}">`
+    )
+    .join("");
+  const buttons = users
+    .map(
+      (user) =>
+        `<button name="sub" value="${escapeHtml(user.sub)}">${escapeHtml(
+          user.name
+        )} &lt;${escapeHtml(user.email)}&gt;</button>`
+    )
+    .join("<br>");
+  res.send(
+    `<!doctype html><title>Local IdP</title><h1>Sign in as</h1>` +
+      `<form method="post" action="/authorize">${hidden}${buttons}</form>`
+  );
+});
+
+// Completes the sign-in and sends the browser back with a one-time code
+app.post("/authorize", (req: Request, res: Response) => {
+  const params = req.body as Record<string, string>;
+  const problem = checkAuthorizationRequest(params);
+  if (problem) {
+    res.status(400).send(escapeHtml(problem));
+    return;
+  }
+  if (!users.some((user) => user.sub === params.sub)) {
+    res.status(400).send("Unknown user.");
+    return;
+  }
+
+  const code = crypto.randomBytes(32).toString("base64url");
+  codes.set(code, {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    nonce: params.nonce,
+    sub: params.sub,
+    authTime: Math.floor(Date.now() / 1000),
+    expiresAt: Date.now() + CODE_EXPIRATION,
+  });
+
+  const redirect = new URL(params.redirect_uri);
+  redirect.searchParams.set("code", code);
+  if (params.state) redirect.searchParams.set("state", params.state);
+  res.redirect(redirect.toString());
+});
+
+// Redeems a code for an ID token after checking the PKCE verifier
+app.post("/token", (req: Request, res: Response) => {
+  const params = req.body as Record<string, string>;
+  const fail = (error: string, status = 400) => {
+    res.status(status).json({ error });
+  };
+
+  if (params.grant_type !== "authorization_code") {
+    fail("unsupported_grant_type");
+    return;
+  }
+  if (
+    params.client_id !== CLIENT_ID ||
+    (CLIENT_SECRET && params.client_secret !== CLIENT_SECRET)
+  ) {
+    fail("invalid_client", 401);
+    return;
+  }
+
+  // Codes are single use: delete as we read
+  const grant = codes.get(params.code);
+  codes.delete(params.code);
+  const challenge = crypto
+    .createHash("sha256")
+    .update(params.code_verifier || "")
+    .digest("base64url");
+  if (
+    !grant ||
+    grant.expiresAt < Date.now() ||
+    grant.clientId !== params.client_id ||
+    grant.redirectUri !== params.redirect_uri ||
+    grant.codeChallenge !== challenge
+  ) {
+    fail("invalid_grant");
+    return;
+  }
+
+  const user = users.find((candidate) => candidate.sub === grant.sub);
+  if (!user) {
+    fail("invalid_grant");
+    return;
+  }
+
+  const idToken = jwt.sign(
+    { ...user, nonce: grant.nonce, auth_time: grant.authTime },
+    privateKey,
+    {
+      algorithm: "RS256",
+      keyid: KEY_ID,
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+      expiresIn: ID_TOKEN_EXPIRATION,
+    }
+  );
+  res.json({
+    access_token: crypto.randomBytes(32).toString("base64url"),
+    token_type: "Bearer",
+    expires_in: ID_TOKEN_EXPIRATION,
+    id_token: idToken,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Local IdP running at ${ISSUER} (client_id ${CLIENT_ID})`);
+});
@@ -0,0 +1,217 @@
+// src/matching/__tests__/maxWeightMatching.test.ts
+import { maxWeightMatching, WeightedEdge } from "../maxWeightMatching";
+
+// Exhaustive search over all matchings; fine for the small graphs below
+const bruteForce = (edges: WeightedEdge[], maxCardinality: boolean) => {
+  let best = { pairs: 0, weight: 0 };
+  const search = (
+    from: number,
+    used: Set<number>,
+    pairs: number,
+    weight: number
+  ) => {
+    const better = maxCardinality
+      ? pairs > best.pairs || (pairs === best.pairs && weight > best.weight)
+      : weight > best.weight;
+    if (better) best = { pairs, weight };
+    for (let k = from; k < edges.length; k++) {
+      const [i, j, w] = edges[k];
+      if (used.has(i) || used.has(j)) continue;
+      used.add(i).add(j);
+      search(k + 1, used, pairs + 1, weight + w);
+      used.delete(i);
+      used.delete(j);
+    }
+  };
+  search(0, new Set(), 0, 0);
+  return best;
+};
+
+const summarize = (edges: WeightedEdge[], mate: number[]) => {
+  let pairs = 0;
+  let weight = 0;
+  for (const [i, j, w] of edges) {
+    if (mate[i] === j) {
+      pairs++;
+      weight += w;
+    }
+  }
+  return { pairs, weight };
+};
+
+// Small deterministic generator so failures are reproducible
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+};
+
+describe("maxWeightMatching", () => {
+  it("returns an empty matching for no edges", () => {
+    expect(maxWeightMatching([])).toEqual([]);
+  });
+
+  it("matches a single edge", () => {
+    expect(maxWeightMatching([[0, 1, 1]])).toEqual([1, 0]);
+  });
+
+  it("picks the heavier of two adjacent edges", () => {
+    expect(
+      maxWeightMatching([
+        [1, 2, 10],
+        [2, 3, 11],
+      ])
+    ).toEqual([-1, -1, 3, 2]);
+  });
+
+  it("prefers weight over cardinality unless asked otherwise", () => {
+    const edges: WeightedEdge[] = [
+      [1, 2, 5],
+      [2, 3, 11],
+      [3, 4, 5],
+    ];
+
+    expect(maxWeightMatching(edges)).toEqual([-1, -1, 3, 2, -1]);
+    expect(maxWeightMatching(edges, true)).toEqual([-1, 2, 1, 4, 3]);
+  });
+
+  it("leaves out negative edges, unless needed for maximum cardinality", () => {
+    const edges: WeightedEdge[] = [
+      [1, 2, 2],
+      [1, 3, -2],
+      [2, 3, 1],
+      [2, 4, -1],
+      [3, 4, -6],
+    ];
+
+    expect(maxWeightMatching(edges)).toEqual([-1, 2, 1, -1, -1]);
+    expect(maxWeightMatching(edges, true)).toEqual([-1, 3, 4, 1, 2]);
+  });
+
+  it.each<[string, WeightedEdge[], number[]]>([
+    [
+      "an odd cycle (S-blossom)",
+      [
+        [1, 2, 8],
+        [1, 3, 9],
+        [2, 3, 10],
+        [3, 4, 7],
+      ],
+      [-1, 2, 1, 4, 3],
+    ],
+    [
+      "an augmenting path through a blossom",
+      [
+        [1, 2, 8],
+        [1, 3, 9],
+        [2, 3, 10],
+        [3, 4, 7],
+        [1, 6, 5],
+        [4, 5, 6],
+      ],
+      [-1, 6, 3, 2, 5, 4, 1],
+    ],
+    [
+      "a blossom that becomes a T-vertex",
+      [
+        [1, 2, 9],
+        [1, 3, 8],
+        [2, 3, 10],
+        [1, 4, 5],
+        [4, 5, 3],
+        [3, 6, 4],
+      ],
+      [-1, 2, 1, 6, 5, 4, 3],
+    ],
+    [
+      "nested blossoms",
+      [
+        [1, 2, 9],
+        [1, 3, 9],
+        [2, 3, 10],
+        [2, 4, 8],
+        [3, 5, 8],
+        [4, 5, 10],
+        [5, 6, 6],
+      ],
+      [-1, 3, 4, 1, 2, 6, 5],
+    ],
+    [
+      "nested blossoms that are relabeled",
+      [
+        [1, 2, 10],
+        [1, 7, 10],
+        [2, 3, 12],
+        [3, 4, 20],
+        [3, 5, 20],
+        [4, 5, 25],
+        [5, 6, 10],
+        [6, 7, 10],
+        [7, 8, 8],
+      ],
+      [-1, 2, 1, 4, 3, 6, 5, 8, 7],
+    ],
+    [
+      "nested blossoms that are expanded",
+      [
+        [1, 2, 8],
+        [1, 3, 8],
+        [2, 3, 10],
+        [2, 4, 12],
+        [3, 5, 12],
+        [4, 5, 14],
+        [4, 6, 12],
+        [5, 7, 12],
+        [6, 7, 14],
+        [7, 8, 12],
+      ],
+      [-1, 2, 1, 5, 6, 3, 4, 8, 7],
+    ],
+    [
+      "a T-blossom expanded with an augmenting path through it",
+      [
+        [1, 2, 45],
+        [1, 5, 45],
+        [2, 3, 50],
+        [3, 4, 45],
+        [4, 5, 50],
+        [1, 6, 30],
+        [3, 9, 35],
+        [4, 8, 35],
+        [5, 7, 26],
+        [9, 10, 5],
+      ],
+      [-1, 6, 3, 2, 8, 7, 1, 5, 4, 10, 9],
+    ],
+  ])("finds the optimum for %s", (_, edges, expected) => {
+    expect(maxWeightMatching(edges)).toEqual(expected);
+  });
+
+  it.each([false, true])(
+    "agrees with exhaustive search on random graphs (maxCardinality %s)",
+    (maxCardinality) => {
+      const next = random(maxCardinality ? 7 : 3);
+      for (let graph = 0; graph < 40; graph++) {
+        const size = 4 + Math.floor(next() * 5);
+        const edges: WeightedEdge[] = [];
+        for (let i = 0; i < size; i++) {
+          for (let j = i + 1; j < size; j++) {
+            if (next() < 0.5) {
+              edges.push([i, j, Math.floor(next() * 30) - 10]);
+            }
+          }
+        }
+        if (!edges.length) continue;
+
+        const mate = maxWeightMatching(edges, maxCardinality);
+        mate.forEach((partner, vertex) => {
+          if (partner !== -1) expect(mate[partner]).toBe(vertex);
+        });
+        const found = summarize(edges, mate);
+        const best = bruteForce(edges, maxCardinality);
+        expect(found.weight).toBe(best.weight);
+        // Zero-weight edges make the pair count ambiguous otherwise
+        if (maxCardinality) expect(found.pairs).toBe(best.pairs);
+      }
+    }
+  );
+});
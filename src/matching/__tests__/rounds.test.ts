@@ -0,0 +1,156 @@
+// src/matching/__tests__/rounds.test.ts
+import { planRound, RoundParticipant } from "../rounds";
+import { MATCH_WEIGHTS } from "../scoring";
+
+// planRound is pure; keep the socket server (and its auth setup) out of it
+jest.mock("../../ws", () => ({ io: undefined }));
+
+const NOW = new Date("2026-01-05T12:00:00Z");
+
+const participant = (
+  userId: string,
+  interests: string[],
+  extra: Partial<RoundParticipant> = {}
+): RoundParticipant => ({
+  userId,
+  interests,
+  matchCount: {},
+  blocked: [],
+  ...extra,
+});
+
+const pairedUsers = (participants: RoundParticipant[], repeatPenalty = 3) =>
+  planRound(participants, repeatPenalty, NOW).pairs.map((pair) => pair.users);
+
+describe("planRound", () => {
+  beforeAll(() => {
+    // Pin the weights so a local .env can't change the expected plans
+    Object.assign(MATCH_WEIGHTS, {
+      interests: 10,
+      availability: 4,
+      availabilityCapMinutes: 60,
+    });
+  });
+
+  it("pairs people by shared interests", () => {
+    const plan = planRound(
+      [
+        participant("a", ["chess"]),
+        participant("c", ["cooking"]),
+        participant("b", ["chess"]),
+        participant("d", ["cooking"]),
+      ],
+      3,
+      NOW
+    );
+
+    expect(plan.pairs).toEqual([
+      {
+        users: ["a", "b"],
+        weight: 10,
+        sharedInterests: ["chess"],
+        pastMatches: 0,
+      },
+      {
+        users: ["c", "d"],
+        weight: 10,
+        sharedInterests: ["cooking"],
+        pastMatches: 0,
+      },
+    ]);
+    expect(plan.unmatched).toEqual([]);
+    expect(plan.totalWeight).toBe(20);
+  });
+
+  it("leaves the odd one out unmatched", () => {
+    const plan = planRound(
+      [
+        participant("a", ["chess"]),
+        participant("b", ["chess"]),
+        participant("c", ["cooking"]),
+      ],
+      3,
+      NOW
+    );
+
+    expect(plan.pairs.map((pair) => pair.users)).toEqual([["a", "b"]]);
+    expect(plan.unmatched).toEqual(["c"]);
+  });
+
+  it("pairs as many people as possible before maximizing weight", () => {
+    // a-b is the best pair, but taking it would leave c and d unmatched
+    const participants = [
+      participant("a", ["chess", "go"], { blocked: ["d"] }),
+      participant("b", ["chess", "go"]),
+      participant("c", ["chess", "hiking"], { blocked: ["b", "d"] }),
+      participant("d", ["go", "hiking"]),
+    ];
+
+    expect(pairedUsers(participants)).toEqual([
+      ["a", "c"],
+      ["b", "d"],
+    ]);
+  });
+
+  it("penalises pairs that met before", () => {
+    const participants = [
+      participant("a", ["chess"], { matchCount: { b: 1 } }),
+      participant("b", ["chess"]),
+      participant("c", ["chess", "go"]),
+      participant("d", ["chess", "go"]),
+    ];
+
+    const plain = planRound(participants, 0, NOW);
+    expect(plain.pairs[0]).toMatchObject({
+      users: ["a", "b"],
+      weight: 10,
+      pastMatches: 1,
+    });
+
+    const penalised = pairedUsers(participants, 12);
+    expect(penalised).toHaveLength(2);
+    expect(penalised).not.toContainEqual(["a", "b"]);
+  });
+
+  it("never pairs people who blocked each other", () => {
+    const plan = planRound(
+      [
+        participant("a", ["chess"], { blocked: ["b"] }),
+        participant("b", ["chess"]),
+      ],
+      3,
+      NOW
+    );
+
+    expect(plan.pairs).toEqual([]);
+    expect(plan.unmatched).toEqual(["a", "b"]);
+  });
+
+  it("keeps blocked pairs apart even when that lowers the total", () => {
+    const participants = [
+      participant("a", ["chess"]),
+      participant("b", ["chess"], { blocked: ["a"] }),
+      participant("c", ["cooking"]),
+      participant("d", ["cooking"], { blocked: ["c"] }),
+    ];
+    const pairs = pairedUsers(participants);
+
+    expect(pairs).toHaveLength(2);
+    expect(pairs).not.toContainEqual(["a", "b"]);
+    expect(pairs).not.toContainEqual(["c", "d"]);
+  });
+
+  it("returns the same plan whatever the input order", () => {
+    const participants = [
+      participant("a", ["chess", "go"]),
+      participant("b", ["chess"]),
+      participant("c", ["go", "hiking"]),
+      participant("d", ["hiking"]),
+      participant("e", ["chess", "hiking"]),
+    ];
+
+    expect(planRound([...participants].reverse(), 3, NOW)).toEqual(
+      planRound(participants, 3, NOW)
+    );
+  });
+});
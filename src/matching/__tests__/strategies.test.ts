@@ -0,0 +1,145 @@
+// src/matching/__tests__/strategies.test.ts
+import { rankCandidates } from "../ranking";
+import { MATCH_WEIGHTS } from "../scoring";
+import {
+  fifoStrategy,
+  interestStrategy,
+  roundRobinStrategy,
+} from "../strategies";
+import { MatchRequester, QueueSnapshotEntry } from "../types";
+
+const NOW = new Date("2026-01-05T12:00:00Z");
+const minutesAgo = (minutes: number) =>
+  new Date(NOW.getTime() - minutes * 60 * 1000);
+
+const requester: MatchRequester = {
+  userId: "requester",
+  interests: ["chess", "hiking"],
+  department: "eng",
+  matchCount: {},
+  metDepartments: { design: 1 },
+};
+
+const snapshot: QueueSnapshotEntry[] = [
+  {
+    entryId: "e1",
+    userId: "u1",
+    interests: ["cooking"],
+    department: "eng",
+    waitingSince: minutesAgo(50),
+  },
+  {
+    entryId: "e2",
+    userId: "u2",
+    interests: ["chess", "hiking"],
+    department: "design",
+    waitingSince: minutesAgo(10),
+  },
+  {
+    entryId: "e3",
+    userId: "u3",
+    interests: ["chess"],
+    department: "sales",
+    waitingSince: minutesAgo(30),
+  },
+  {
+    entryId: "e4",
+    userId: "u4",
+    interests: ["Hiking", "chess "],
+    department: "sales",
+    waitingSince: minutesAgo(10),
+  },
+  {
+    entryId: "e5",
+    userId: "requester",
+    interests: ["chess", "hiking"],
+    department: "eng",
+    waitingSince: minutesAgo(5),
+  },
+];
+
+const rankedUserIds = (...args: Parameters<typeof rankCandidates>) =>
+  rankCandidates(...args).map((candidate) => candidate.entry.userId);
+
+describe("matching strategies", () => {
+  beforeAll(() => {
+    // Pin the weights so a local .env can't change the expected rankings
+    Object.assign(MATCH_WEIGHTS, {
+      interests: 10,
+      wait: 5,
+      waitCapMinutes: 60,
+      history: 3,
+      availability: 4,
+      availabilityCapMinutes: 60,
+      meetAgain: 4,
+      rating: 2,
+    });
+  });
+
+  it("fifo ranks the longest-waiting candidate first, entry id breaking ties", () => {
+    expect(rankedUserIds(fifoStrategy, requester, snapshot, NOW)).toEqual([
+      "u1",
+      "u3",
+      "u2",
+      "u4",
+    ]);
+  });
+
+  it("interest ranks by score, wait time breaking ties", () => {
+    const ranked = rankCandidates(interestStrategy, requester, snapshot, NOW);
+
+    expect(ranked.map((candidate) => candidate.entry.userId)).toEqual([
+      "u2",
+      "u4",
+      "u3",
+      "u1",
+    ]);
+    expect(ranked.map((candidate) => candidate.score.total)).toEqual([
+      10.83, 10.83, 7.5, 4.17,
+    ]);
+    expect(ranked[1].score.sharedInterests).toEqual(["chess", "hiking"]);
+  });
+
+  it("interest penalises previous matches", () => {
+    const rematching = { ...requester, matchCount: { u2: 2 } };
+
+    expect(rankedUserIds(interestStrategy, rematching, snapshot, NOW)).toEqual([
+      "u4",
+      "u3",
+      "u2",
+      "u1",
+    ]);
+  });
+
+  it("round_robin prefers the least-met department and puts the own department last", () => {
+    expect(rankedUserIds(roundRobinStrategy, requester, snapshot, NOW)).toEqual(
+      ["u3", "u4", "u2", "u1"]
+    );
+  });
+
+  it("round_robin treats users without a department as one group", () => {
+    const withoutDepartments = snapshot.map(
+      ({ department, ...entry }) => entry
+    );
+
+    expect(
+      rankedUserIds(
+        roundRobinStrategy,
+        { ...requester, department: undefined },
+        withoutDepartments,
+        NOW
+      )
+    ).toEqual(["u1", "u3", "u2", "u4"]);
+  });
+
+  it.each([fifoStrategy, interestStrategy, roundRobinStrategy])(
+    "$name returns the same order whatever the snapshot order",
+    (strategy) => {
+      const expected = rankedUserIds(strategy, requester, snapshot, NOW);
+
+      expect(
+        rankedUserIds(strategy, requester, [...snapshot].reverse(), NOW)
+      ).toEqual(expected);
+    }
+  );
+});
@@ -0,0 +1,79 @@
+// src/matching/history.ts
+// Match history and the rematch cooldown policy.
+import { ClientSession } from "mongoose";
+import User, { IUser } from "../models/User";
+import { envNumber } from "../utils/config";
+
+/**
+ * - cooldownDays: a past partner can be matched again this many days after
+ *   the last match (0 disables the time-based release)
+ * - afterEveryone: once a user has met every other active user, past
+ *   partners become eligible again regardless of the cooldown
+ */
+export const REMATCH_POLICY = {
+  cooldownDays: envNumber("MATCH_COOLDOWN_DAYS", 30),
+  afterEveryone: process.env.MATCH_REMATCH_AFTER_EVERYONE !== "false",
+};
+
+/**
+ * Whether a partner last met at `lastMatchedAt` is still cooling down.
+ * Pairs matched before match dates were recorded have no date and stay
+ * excluded until the "met everyone" rule releases them.
+ */
+export const isInCooldown = (
+  lastMatchedAt: Date | undefined,
+  now: Date = new Date()
+): boolean => {
+  if (!lastMatchedAt || REMATCH_POLICY.cooldownDays <= 0) return true;
+  const cooldownMs = REMATCH_POLICY.cooldownDays * 24 * 60 * 60 * 1000;
+  return now.getTime() - lastMatchedAt.getTime() < cooldownMs;
+};
+
+/**
+ * Returns the past partners `user` can't be matched with right now.
+ */
+export const getRematchExclusions = async (
+  user: IUser,
+  session: ClientSession,
+  now: Date = new Date()
+): Promise<string[]> => {
+  const partnerIds = user.matches.map((id) => id.toString());
+  if (!partnerIds.length) return [];
+
+  if (REMATCH_POLICY.afterEveryone) {
+    const otherUsers = await User.countDocuments({
+      _id: { $ne: user.id },
+      suspendedAt: null,
+    }).session(session);
+    if (new Set(partnerIds).size >= otherUsers) return [];
+  }
+
+  return partnerIds.filter((partnerId) =>
+    isInCooldown(user.lastMatchedAt?.get(partnerId), now)
+  );
+};
+
+/**
+ * Records a match on both users: adds each other to `matches`, increments
+ * `matchCount` and stamps the match date used by the cooldown.
+ */
+export const recordMatch = async (
+  userId: string,
+  partnerId: string,
+  session: ClientSession,
+  now: Date = new Date()
+) => {
+  const update = (self: string, other: string) =>
+    User.findByIdAndUpdate(
+      self,
+      {
+        $addToSet: { matches: other },
+        $inc: { [`matchCount.${other}`]: 1 },
+        $set: { [`lastMatchedAt.${other}`]: now },
+      },
+      { session }
+    );
+
+  await update(userId, partnerId);
+  await update(partnerId, userId);
+};
@@ -0,0 +1,185 @@
+// src/matching/index.ts
+// Matching engine: snapshots the waiting queue, lets the configured strategy
+// rank the candidates and atomically claims the best one.
+import { ClientSession } from "mongoose";
+import dotenv from "dotenv";
+import Queue from "../models/Queue";
+import User, { IUser } from "../models/User";
+import { MatchScore } from "./scoring";
+import { rankCandidates } from "./ranking";
+import { getRematchExclusions } from "./history";
+import { getBlockedUserIds } from "../utils/blocks";
+import { transitionEntry } from "../utils/queueStateMachine";
+import { getAverageRatings, getMeetAgainPreferences } from "../utils/feedback";
+import {
+  fifoStrategy,
+  interestStrategy,
+  roundRobinStrategy,
+} from "./strategies";
+import {
+  MatchRequester,
+  MatchingStrategy,
+  MatchingStrategyName,
+  QueueSnapshotEntry,
+} from "./types";
+
+dotenv.config();
+
+export * from "./types";
+export { MatchScore } from "./scoring";
+export { rankCandidates } from "./ranking";
+export { recordMatch, REMATCH_POLICY } from "./history";
+export { POD_SETTINGS, findPod, planPod } from "./pods";
+
+const MAX_RETRIES = 3;
+const CANDIDATE_FIELDS =
+  "name email bio interests department timezone availability profilePictureUrl";
+
+export const MATCHING_STRATEGIES: Record<
+  MatchingStrategyName,
+  MatchingStrategy
+> = {
+  fifo: fifoStrategy,
+  interest: interestStrategy,
+  round_robin: roundRobinStrategy,
+};
+
+const resolveStrategy = (name: string): MatchingStrategy => {
+  const strategy = MATCHING_STRATEGIES[name as MatchingStrategyName];
+  if (!strategy) {
+    throw new Error(
+      `Unknown matching strategy "${name}". Use one of: ${Object.keys(
+        MATCHING_STRATEGIES
+      ).join(", ")}`
+    );
+  }
+  return strategy;
+};
+
+let activeStrategy: MatchingStrategy | null = null;
+
+/**
+ * Returns the strategy selected by MATCHING_STRATEGY (default: interest).
+ */
+export const getMatchingStrategy = (): MatchingStrategy => {
+  if (!activeStrategy) {
+    activeStrategy = resolveStrategy(
+      process.env.MATCHING_STRATEGY || "interest"
+    );
+  }
+  return activeStrategy;
+};
+
+/**
+ * Switches the active strategy at runtime (e.g. from tests or scripts).
+ */
+export const setMatchingStrategy = (name: MatchingStrategyName) => {
+  activeStrategy = resolveStrategy(name);
+};
+
+/**
+ * Builds the requester view of a user, including the departments of the
+ * people they met before.
+ */
+const loadRequester = async (
+  user: IUser,
+  session: ClientSession
+): Promise<MatchRequester> => {
+  const partners = await User.find({ _id: { $in: user.matches } })
+    .select("department")
+    .session(session);
+  const metDepartments: Record<string, number> = {};
+  for (const partner of partners) {
+    const department = partner.department || "";
+    metDepartments[department] = (metDepartments[department] || 0) + 1;
+  }
+
+  return {
+    userId: user.id,
+    interests: user.interests,
+    department: user.department,
+    timezone: user.timezone,
+    availability: user.availability,
+    matchCount: Object.fromEntries(user.matchCount || []),
+    metDepartments,
+    meetAgain: await getMeetAgainPreferences(user.id, session),
+  };
+};
+
+export interface MatchResult {
+  matchedUser: IUser;
+  score: MatchScore;
+  strategy: MatchingStrategyName;
+}
+
+/**
+ * Finds the best waiting partner for `user` and claims their queue entry
+ * (status `matched`, `matchedWith` set) inside the given transaction.
+ * Returns null if nobody suitable is waiting.
+ */
+export const findMatch = async (
+  user: IUser,
+  session: ClientSession
+): Promise<MatchResult | null> => {
+  const strategy = getMatchingStrategy();
+  const requester = await loadRequester(user, session);
+  const excludedIds = new Set([
+    user.id,
+    ...(await getRematchExclusions(user, session)),
+    ...(await getBlockedUserIds(user.id, session)),
+  ]);
+
+  for (let retries = 0; retries < MAX_RETRIES; retries++) {
+    const entries = await Queue.find({
+      status: "waiting",
+      mode: { $ne: "group" },
+      user: { $nin: [...excludedIds] },
+      // Skip entries that expired but weren't swept yet
+      $or: [{ expiresAt: { $gt: new Date() } }, { expiresAt: null }],
+    })
+      .populate<{ user: IUser }>("user", CANDIDATE_FIELDS)
+      .session(session);
+
+    const users = new Map<string, IUser>();
+    const snapshot: QueueSnapshotEntry[] = [];
+    const ratings = await getAverageRatings(
+      entries.filter((entry) => entry.user).map((entry) => entry.user.id),
+      session
+    );
+    for (const entry of entries) {
+      if (!entry.user) continue;
+      users.set(entry.user.id, entry.user);
+      snapshot.push({
+        entryId: entry.id,
+        userId: entry.user.id,
+        interests: entry.user.interests,
+        department: entry.user.department,
+        timezone: entry.user.timezone,
+        availability: entry.user.availability,
+        averageRating: ratings[entry.user.id],
+        waitingSince: entry.get("createdAt"),
+      });
+    }
+
+    const [best] = rankCandidates(strategy, requester, snapshot);
+    if (!best) return null;
+
+    // Claim the candidate; another booking may have taken them meanwhile
+    const claimed = await transitionEntry(
+      { _id: best.entry.entryId },
+      "match",
+      { actor: user.id, reason: "matched_on_booking", session },
+      { matchedWith: user.id }
+    );
+    if (claimed) {
+      return {
+        matchedUser: users.get(best.entry.userId),
+        score: best.score,
+        strategy: strategy.name,
+      };
+    }
+    excludedIds.add(best.entry.userId);
+  }
+
+  return null;
+};
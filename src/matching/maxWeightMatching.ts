@@ -0,0 +1,467 @@
+// src/matching/maxWeightMatching.ts
+// Maximum-weight matching on a general (non-bipartite) graph, using Edmonds'
+// blossom algorithm with dual variables, O(n^3). Port of the well-known
+// reference implementation by Joris van Rantwijk (mwmatching.py).
+
+/** An undirected edge between vertices `i` and `j` with weight `weight`. */
+export type WeightedEdge = [i: number, j: number, weight: number];
+
+/**
+ * Computes a maximum-weight matching. With `maxCardinality`, only
+ * maximum-cardinality matchings are considered (as many pairs as possible,
+ * then the highest total weight).
+ *
+ * Returns `mate`, where `mate[v]` is the vertex matched to `v`, or -1.
+ */
+export function maxWeightMatching(
+  edges: WeightedEdge[],
+  maxCardinality = false
+): number[] {
+  if (!edges.length) return [];
+
+  const nedge = edges.length;
+  let nvertex = 0;
+  for (const [i, j] of edges) {
+    nvertex = Math.max(nvertex, i + 1, j + 1);
+  }
+  const maxWeight = Math.max(0, ...edges.map(([, , weight]) => weight));
+
+  // endpoint[p] is the vertex at endpoint p; edge k has endpoints 2k and 2k+1
+  const endpoint: number[] = [];
+  for (let p = 0; p < 2 * nedge; p++) endpoint.push(edges[p >> 1][p % 2]);
+
+  // neighbend[v] lists the remote endpoints of the edges incident to v
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  edges.forEach(([i, j], k) => {
+    neighbend[i].push(2 * k + 1);
+    neighbend[j].push(2 * k);
+  });
+
+  const fill = <T>(length: number, value: T): T[] =>
+    new Array(length).fill(value);
+  const range = (from: number, to: number) =>
+    Array.from({ length: to - from }, (_, i) => from + i);
+
+  const mate = fill(nvertex, -1); // Remote endpoint of the matched edge
+  const label = fill(2 * nvertex, 0); // 0 free, 1 S-vertex, 2 T-vertex
+  const labelend = fill(2 * nvertex, -1);
+  const inblossom = range(0, nvertex);
+  const blossomparent = fill(2 * nvertex, -1);
+  const blossomchilds: (number[] | null)[] = fill(2 * nvertex, null);
+  const blossombase = [...range(0, nvertex), ...fill(nvertex, -1)];
+  const blossomendps: (number[] | null)[] = fill(2 * nvertex, null);
+  const bestedge = fill(2 * nvertex, -1);
+  const blossombestedges: (number[] | null)[] = fill(2 * nvertex, null);
+  const unusedblossoms = range(nvertex, 2 * nvertex);
+  const dualvar = [...fill(nvertex, maxWeight), ...fill(nvertex, 0)];
+  const allowedge = fill(nedge, false);
+  let queue: number[] = [];
+
+  const slack = (k: number) => {
+    const [i, j, weight] = edges[k];
+    return dualvar[i] + dualvar[j] - 2 * weight;
+  };
+
+  const blossomLeaves = (b: number): number[] => {
+    if (b < nvertex) return [b];
+    const leaves: number[] = [];
+    for (const t of blossomchilds[b]) {
+      if (t < nvertex) leaves.push(t);
+      else leaves.push(...blossomLeaves(t));
+    }
+    return leaves;
+  };
+
+  // Labels the top-level blossom of w and, for T-labels, its mate as S
+  const assignLabel = (w: number, t: number, p: number) => {
+    const b = inblossom[w];
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+    if (t === 1) {
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      const base = blossombase[b];
+      assignLabel(endpoint[mate[base]], 1, mate[base] ^ 1);
+    }
+  };
+
+  // Traces back from v and w to find a new blossom (returns its base) or an
+  // augmenting path (returns -1)
+  const scanBlossom = (v: number, w: number): number => {
+    const path: number[] = [];
+    let base = -1;
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v];
+      if (label[b] & 4) {
+        base = blossombase[b];
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]];
+        b = inblossom[v];
+        v = endpoint[labelend[b]];
+      }
+      if (w !== -1) [v, w] = [w, v];
+    }
+    for (const b of path) label[b] = 1;
+    return base;
+  };
+
+  // Builds a new blossom with the given base through S-vertices of edge k
+  const addBlossom = (base: number, k: number) => {
+    let [v, w] = edges[k];
+    const bb = inblossom[base];
+    let bv = inblossom[v];
+    let bw = inblossom[w];
+    const b = unusedblossoms.pop();
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]);
+      v = endpoint[labelend[bv]];
+      bv = inblossom[v];
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw] ^ 1);
+      w = endpoint[labelend[bw]];
+      bw = inblossom[w];
+    }
+
+    label[b] = 1;
+    labelend[b] = labelend[bb];
+    dualvar[b] = 0;
+    for (const leaf of blossomLeaves(b)) {
+      if (label[inblossom[leaf]] === 2) queue.push(leaf);
+      inblossom[leaf] = b;
+    }
+
+    // Compute the best edges from the new blossom to other S-blossoms
+    const bestedgeto = fill(2 * nvertex, -1);
+    for (const child of path) {
+      const nblists = blossombestedges[child]
+        ? [blossombestedges[child]]
+        : blossomLeaves(child).map((leaf) =>
+            neighbend[leaf].map((p) => p >> 1)
+          );
+      for (const nblist of nblists) {
+        for (const edge of nblist) {
+          let [i, j] = edges[edge];
+          if (inblossom[j] === b) [i, j] = [j, i];
+          const bj = inblossom[j];
+          if (
+            bj !== b &&
+            label[bj] === 1 &&
+            (bestedgeto[bj] === -1 || slack(edge) < slack(bestedgeto[bj]))
+          ) {
+            bestedgeto[bj] = edge;
+          }
+        }
+      }
+      blossombestedges[child] = null;
+      bestedge[child] = -1;
+    }
+    blossombestedges[b] = bestedgeto.filter((edge) => edge !== -1);
+    bestedge[b] = -1;
+    for (const edge of blossombestedges[b]) {
+      if (bestedge[b] === -1 || slack(edge) < slack(bestedge[b])) {
+        bestedge[b] = edge;
+      }
+    }
+  };
+
+  // Expands a blossom into its sub-blossoms
+  const expandBlossom = (b: number, endstage: boolean) => {
+    for (const s of blossomchilds[b]) {
+      blossomparent[s] = -1;
+      if (s < nvertex) {
+        inblossom[s] = s;
+      } else if (endstage && dualvar[s] === 0) {
+        expandBlossom(s, endstage);
+      } else {
+        for (const leaf of blossomLeaves(s)) inblossom[leaf] = s;
+      }
+    }
+
+    // A T-blossom expanded mid-stage: relabel the sub-blossoms on the path
+    // from the entry child to the base
+    if (!endstage && label[b] === 2) {
+      const childs = blossomchilds[b];
+      const endps = blossomendps[b];
+      const at = (index: number) => (index < 0 ? childs.length + index : index);
+      const entrychild = inblossom[endpoint[labelend[b] ^ 1]];
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+      let p = labelend[b];
+      while (j !== 0) {
+        label[endpoint[p ^ 1]] = 0;
+        label[endpoint[endps[at(j - endptrick)] ^ endptrick ^ 1]] = 0;
+        assignLabel(endpoint[p ^ 1], 2, p);
+        allowedge[endps[at(j - endptrick)] >> 1] = true;
+        j += jstep;
+        p = endps[at(j - endptrick)] ^ endptrick;
+        allowedge[p >> 1] = true;
+        j += jstep;
+      }
+      let bv = childs[at(j)];
+      label[endpoint[p ^ 1]] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]] = labelend[bv] = p;
+      bestedge[bv] = -1;
+      j += jstep;
+      while (childs[at(j)] !== entrychild) {
+        bv = childs[at(j)];
+        if (label[bv] === 1) {
+          j += jstep;
+          continue;
+        }
+        const labelled = blossomLeaves(bv).find((leaf) => label[leaf] !== 0);
+        if (labelled !== undefined) {
+          label[labelled] = 0;
+          label[endpoint[mate[blossombase[bv]]]] = 0;
+          assignLabel(labelled, 2, labelend[labelled]);
+        }
+        j += jstep;
+      }
+    }
+
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // Swaps matched/unmatched edges along the path from v to the base of b
+  const augmentBlossom = (b: number, v: number) => {
+    let t = v;
+    while (blossomparent[t] !== b) t = blossomparent[t];
+    if (t >= nvertex) augmentBlossom(t, v);
+
+    const childs = blossomchilds[b];
+    const endps = blossomendps[b];
+    const at = (index: number) => (index < 0 ? childs.length + index : index);
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+    while (j !== 0) {
+      j += jstep;
+      t = childs[at(j)];
+      const p = endps[at(j - endptrick)] ^ endptrick;
+      if (t >= nvertex) augmentBlossom(t, endpoint[p]);
+      j += jstep;
+      t = childs[at(j)];
+      if (t >= nvertex) augmentBlossom(t, endpoint[p ^ 1]);
+      mate[endpoint[p]] = p ^ 1;
+      mate[endpoint[p ^ 1]] = p;
+    }
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[blossomchilds[b][0]];
+  };
+
+  // Augments the matching along the path through edge k
+  const augmentMatching = (k: number) => {
+    const [v, w] = edges[k];
+    for (let [s, p] of [
+      [v, 2 * k + 1],
+      [w, 2 * k],
+    ]) {
+      for (;;) {
+        const bs = inblossom[s];
+        if (bs >= nvertex) augmentBlossom(bs, s);
+        mate[s] = p;
+        if (labelend[bs] === -1) break;
+        const t = endpoint[labelend[bs]];
+        const bt = inblossom[t];
+        s = endpoint[labelend[bt]];
+        const j = endpoint[labelend[bt] ^ 1];
+        if (bt >= nvertex) augmentBlossom(bt, j);
+        mate[j] = labelend[bt];
+        p = labelend[bt] ^ 1;
+      }
+    }
+  };
+
+  // Each stage either augments the matching or proves it is optimal
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    blossombestedges.fill(null, nvertex);
+    allowedge.fill(false);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]] === 0) assignLabel(v, 1, -1);
+    }
+
+    let augmented = false;
+    for (;;) {
+      while (queue.length && !augmented) {
+        const v = queue.pop();
+        for (const p of neighbend[v]) {
+          const k = p >> 1;
+          const w = endpoint[p];
+          if (inblossom[v] === inblossom[w]) continue;
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) allowedge[k] = true;
+          }
+          if (allowedge[k]) {
+            if (label[inblossom[w]] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]] === 1) {
+            const b = inblossom[v];
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b])) {
+              bestedge[b] = k;
+            }
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w])) {
+              bestedge[w] = k;
+            }
+          }
+        }
+      }
+      if (augmented) break;
+
+      // No augmenting path yet: update the dual variables
+      let deltatype = -1;
+      let delta = 0;
+      let deltaedge = -1;
+      let deltablossom = -1;
+
+      if (!maxCardinality) {
+        deltatype = 1;
+        delta = Math.min(...dualvar.slice(0, nvertex));
+      }
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]);
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v];
+          }
+        }
+      }
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]) / 2;
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b];
+          }
+        }
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (
+          blossombase[b] >= 0 &&
+          blossomparent[b] === -1 &&
+          label[b] === 2 &&
+          (deltatype === -1 || dualvar[b] < delta)
+        ) {
+          delta = dualvar[b];
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+      if (deltatype === -1) {
+        // Max cardinality reached: finish with a final dual update
+        deltatype = 1;
+        delta = Math.max(0, Math.min(...dualvar.slice(0, nvertex)));
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 1) dualvar[v] -= delta;
+        else if (label[inblossom[v]] === 2) dualvar[v] += delta;
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) dualvar[b] += delta;
+          else if (label[b] === 2) dualvar[b] -= delta;
+        }
+      }
+
+      if (deltatype === 1) {
+        break;
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = true;
+        let [i, j] = edges[deltaedge];
+        if (label[inblossom[i]] === 0) [i, j] = [j, i];
+        queue.push(i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = true;
+        queue.push(edges[deltaedge][0]);
+      } else {
+        expandBlossom(deltablossom, false);
+      }
+    }
+
+    if (!augmented) break;
+
+    // End of stage: expand S-blossoms whose dual variable dropped to zero
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (
+        blossomparent[b] === -1 &&
+        blossombase[b] >= 0 &&
+        label[b] === 1 &&
+        dualvar[b] === 0
+      ) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  return mate.map((p) => (p >= 0 ? endpoint[p] : -1));
+}
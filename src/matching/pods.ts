@@ -0,0 +1,223 @@
+// src/matching/pods.ts
+// Group mode: forms pods of several users from the group waiting queue.
+// Pods are grown greedily: each step adds the candidate who fits best with
+// everyone already in the pod.
+import { ClientSession, Types } from "mongoose";
+import Queue from "../models/Queue";
+import { IUser } from "../models/User";
+import { envNumber } from "../utils/config";
+import { getBlockedUserIds, getBlocksAmong } from "../utils/blocks";
+import { createOverlapCalculator } from "../utils/availability";
+import { transitionEntries, transitionEntry } from "../utils/queueStateMachine";
+import { scoreCandidate } from "./scoring";
+import { QueueSnapshotEntry } from "./types";
+
+const MAX_RETRIES = 3;
+const CANDIDATE_FIELDS =
+  "name email bio interests timezone availability matchCount profilePictureUrl";
+
+export const POD_SETTINGS = {
+  minSize: 3,
+  maxSize: 4,
+  defaultSize: Math.min(Math.max(envNumber("POD_SIZE", 3), 3), 4),
+};
+
+export interface PodMember {
+  userId: string;
+  interests: string[];
+  timezone?: string;
+  availability?: QueueSnapshotEntry["availability"];
+  matchCount: Record<string, number>;
+  blocked: string[]; // Users this member must not share a pod with
+}
+
+export type PodCandidate = PodMember &
+  Pick<QueueSnapshotEntry, "entryId" | "waitingSince">;
+
+export interface PodPlan {
+  members: PodCandidate[]; // The candidates joining the requester
+  sharedInterests: string[];
+  score: number;
+}
+
+const normalize = (interests: string[] = []) =>
+  interests.map((interest) => interest.trim().toLowerCase()).filter(Boolean);
+
+const conflicts = (a: PodMember, b: PodMember) =>
+  a.blocked.includes(b.userId) || b.blocked.includes(a.userId);
+
+/**
+ * How well `candidate` fits with `member`. Uses the pairwise match score,
+ * so shared interests, wait time, history and availability all count.
+ */
+const fit = (
+  member: PodMember,
+  candidate: PodCandidate,
+  now: Date,
+  getOverlapMinutes: ReturnType<typeof createOverlapCalculator>
+) =>
+  scoreCandidate({
+    interests: member.interests,
+    candidateInterests: candidate.interests,
+    waitingSince: candidate.waitingSince,
+    pastMatches: Math.max(
+      member.matchCount[candidate.userId] || 0,
+      candidate.matchCount[member.userId] || 0
+    ),
+    overlapMinutes:
+      member.availability?.length && candidate.availability?.length
+        ? getOverlapMinutes(member, candidate)
+        : undefined,
+    now,
+  }).total;
+
+/**
+ * Picks `size - 1` candidates to form a pod with the requester. Pure and
+ * deterministic; returns null if not enough compatible people are waiting.
+ */
+export const planPod = (
+  requester: PodMember,
+  candidates: PodCandidate[],
+  size: number,
+  now: Date = new Date()
+): PodPlan | null => {
+  // Oldest entries first, so ties go to whoever waited longest
+  const pool = candidates
+    .filter((candidate) => candidate.userId !== requester.userId)
+    .sort(
+      (a, b) =>
+        a.waitingSince.getTime() - b.waitingSince.getTime() ||
+        a.userId.localeCompare(b.userId)
+    );
+  const getOverlapMinutes = createOverlapCalculator(now);
+  const pod: PodMember[] = [requester];
+  const picked: PodCandidate[] = [];
+  let score = 0;
+
+  while (pod.length < size) {
+    let best: { candidate: PodCandidate; total: number } | null = null;
+    for (const candidate of pool) {
+      if (picked.includes(candidate)) continue;
+      if (pod.some((member) => conflicts(member, candidate))) continue;
+      const total = pod.reduce(
+        (sum, member) => sum + fit(member, candidate, now, getOverlapMinutes),
+        0
+      );
+      if (!best || total > best.total) best = { candidate, total };
+    }
+    if (!best) return null;
+    pod.push(best.candidate);
+    picked.push(best.candidate);
+    score += best.total;
+  }
+
+  const [first, ...rest] = pod.map((member) => normalize(member.interests));
+  return {
+    members: picked,
+    sharedInterests: [...new Set(first)].filter((interest) =>
+      rest.every((interests) => interests.includes(interest))
+    ),
+    score: Math.round(score * 100) / 100,
+  };
+};
+
+export interface PodMatch {
+  podId: Types.ObjectId;
+  members: IUser[]; // The other pod members
+  sharedInterests: string[];
+  score: number;
+}
+
+/**
+ * Forms a pod for `user` from the group waiting queue and claims the other
+ * members' entries (status `matched`, `pod` set) inside the transaction.
+ * Returns null if not enough suitable people are waiting.
+ */
+export const findPod = async (
+  user: IUser,
+  size: number,
+  session: ClientSession
+): Promise<PodMatch | null> => {
+  const excludedIds = new Set([
+    user.id,
+    ...(await getBlockedUserIds(user.id, session)),
+  ]);
+  const requester: PodMember = {
+    userId: user.id,
+    interests: user.interests,
+    timezone: user.timezone,
+    availability: user.availability,
+    matchCount: Object.fromEntries(user.matchCount || []),
+    blocked: [],
+  };
+
+  for (let retries = 0; retries < MAX_RETRIES; retries++) {
+    const entries = await Queue.find({
+      status: "waiting",
+      mode: "group",
+      podSize: size,
+      user: { $nin: [...excludedIds] },
+      $or: [{ expiresAt: { $gt: new Date() } }, { expiresAt: null }],
+    })
+      .populate<{ user: IUser }>("user", CANDIDATE_FIELDS)
+      .session(session);
+
+    const users = new Map<string, IUser>();
+    for (const entry of entries) {
+      if (entry.user) users.set(entry.user.id, entry.user);
+    }
+    const blocked = await getBlocksAmong([...users.keys()], session);
+    const candidates: PodCandidate[] = entries
+      .filter((entry) => entry.user)
+      .map((entry) => ({
+        entryId: entry.id,
+        userId: entry.user.id,
+        interests: entry.user.interests,
+        timezone: entry.user.timezone,
+        availability: entry.user.availability,
+        matchCount: Object.fromEntries(entry.user.matchCount || []),
+        blocked: blocked.get(entry.user.id) || [],
+        waitingSince: entry.get("createdAt"),
+      }));
+
+    const plan = planPod(requester, candidates, size);
+    if (!plan) return null;
+
+    // Claim every member; if someone was taken meanwhile, release the
+    // claims made so far and plan again without them
+    const podId = new Types.ObjectId();
+    const claimedIds: string[] = [];
+    let lost: string | null = null;
+    for (const member of plan.members) {
+      const claimed = await transitionEntry(
+        { _id: member.entryId },
+        "match",
+        { actor: user.id, reason: "pod_formed", session },
+        { pod: podId }
+      );
+      if (!claimed) {
+        lost = member.userId;
+        break;
+      }
+      claimedIds.push(member.entryId);
+    }
+
+    if (!lost) {
+      return {
+        podId,
+        members: plan.members.map((member) => users.get(member.userId)),
+        sharedInterests: plan.sharedInterests,
+        score: plan.score,
+      };
+    }
+    await transitionEntries(
+      { _id: { $in: claimedIds } },
+      "unclaim",
+      { actor: user.id, reason: "pod_member_unavailable", session },
+      { pod: null }
+    );
+    excludedIds.add(lost);
+  }
+
+  return null;
+};
@@ -0,0 +1,40 @@
+// src/matching/ranking.ts
+import { scoreCandidate } from "./scoring";
+import { createOverlapCalculator } from "../utils/availability";
+import {
+  MatchRequester,
+  MatchingStrategy,
+  QueueSnapshotEntry,
+  ScoredCandidate,
+} from "./types";
+
+/**
+ * Scores and ranks an in-memory queue snapshot. Pure: no database access.
+ */
+export const rankCandidates = (
+  strategy: MatchingStrategy,
+  requester: MatchRequester,
+  snapshot: QueueSnapshotEntry[],
+  now: Date = new Date()
+): ScoredCandidate[] => {
+  const getOverlapMinutes = createOverlapCalculator(now);
+  const candidates = snapshot
+    .filter((entry) => entry.userId !== requester.userId)
+    .map((entry) => ({
+      entry,
+      score: scoreCandidate({
+        interests: requester.interests,
+        candidateInterests: entry.interests,
+        waitingSince: entry.waitingSince,
+        pastMatches: requester.matchCount[entry.userId] || 0,
+        overlapMinutes:
+          requester.availability?.length && entry.availability?.length
+            ? getOverlapMinutes(requester, entry)
+            : undefined,
+        meetAgain: requester.meetAgain?.[entry.userId],
+        candidateRating: entry.averageRating,
+        now,
+      }),
+    }));
+  return strategy.rank(requester, candidates);
+};
@@ -0,0 +1,274 @@
+// src/matching/rounds.ts
+// Batch matching rounds: everyone who opted in is paired in a single pass
+// that maximizes the total match quality (maximum-weight matching over
+// interest overlap, with a penalty for pairs that met before).
+import MatchingRound, { IMatchingRound } from "../models/MatchingRound";
+import Queue from "../models/Queue";
+import User from "../models/User";
+import Notification from "../models/Notifications";
+import {
+  AvailabilityWindow,
+  createOverlapCalculator,
+} from "../utils/availability";
+import { getBlocksAmong } from "../utils/blocks";
+import { runInTransaction } from "../utils/transaction";
+import { matchUser } from "../utils/queueStateMachine";
+import { io } from "../ws";
+import { scoreCandidate } from "./scoring";
+import { maxWeightMatching, WeightedEdge } from "./maxWeightMatching";
+import { recordMatch } from "./history";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const WEIGHT_SCALE = 100; // The matcher works on integer weights
+
+export interface RoundParticipant {
+  userId: string;
+  interests: string[];
+  timezone?: string;
+  availability?: AvailabilityWindow[];
+  matchCount: Record<string, number>;
+  blocked: string[]; // Users this participant must not be paired with
+}
+
+export interface PlannedPair {
+  users: [string, string];
+  weight: number;
+  sharedInterests: string[];
+  pastMatches: number;
+}
+
+export interface RoundPlan {
+  pairs: PlannedPair[];
+  unmatched: string[];
+  totalWeight: number;
+}
+
+/**
+ * Pairs the participants. Pure and deterministic: participants are sorted
+ * by id first, so the same input always yields the same plan.
+ * As many people as possible are paired; among those pairings the one with
+ * the highest total weight wins.
+ */
+export const planRound = (
+  participants: RoundParticipant[],
+  repeatPenalty: number,
+  now: Date = new Date()
+): RoundPlan => {
+  const people = [...participants].sort((a, b) =>
+    a.userId.localeCompare(b.userId)
+  );
+  const getOverlapMinutes = createOverlapCalculator(now);
+  const edges: WeightedEdge[] = [];
+  const details = new Map<string, Omit<PlannedPair, "users">>();
+
+  for (let i = 0; i < people.length; i++) {
+    for (let j = i + 1; j < people.length; j++) {
+      const a = people[i];
+      const b = people[j];
+      if (a.blocked.includes(b.userId) || b.blocked.includes(a.userId)) {
+        continue;
+      }
+      const score = scoreCandidate({
+        interests: a.interests,
+        candidateInterests: b.interests,
+        waitingSince: now,
+        pastMatches: 0, // Repeats use the round's own penalty below
+        overlapMinutes:
+          a.availability?.length && b.availability?.length
+            ? getOverlapMinutes(a, b)
+            : undefined,
+        now,
+      });
+      const pastMatches = Math.max(
+        a.matchCount[b.userId] || 0,
+        b.matchCount[a.userId] || 0
+      );
+      const weight =
+        score.interestScore +
+        score.availabilityScore -
+        pastMatches * repeatPenalty;
+
+      edges.push([i, j, Math.round(weight * WEIGHT_SCALE)]);
+      details.set(`${i}:${j}`, {
+        weight: Math.round(weight * 100) / 100,
+        sharedInterests: score.sharedInterests,
+        pastMatches,
+      });
+    }
+  }
+
+  const mate = maxWeightMatching(edges, true);
+  const pairs: PlannedPair[] = [];
+  const unmatched: string[] = [];
+  people.forEach((person, i) => {
+    const j = mate[i] ?? -1;
+    if (j === -1) unmatched.push(person.userId);
+    else if (i < j) {
+      pairs.push({
+        users: [person.userId, people[j].userId],
+        ...details.get(`${i}:${j}`),
+      });
+    }
+  });
+
+  return {
+    pairs,
+    unmatched,
+    totalWeight:
+      Math.round(pairs.reduce((total, pair) => total + pair.weight, 0) * 100) /
+      100,
+  };
+};
+
+/**
+ * Loads the round's participants who can still be matched: not suspended
+ * and without an active match.
+ */
+async function loadParticipants(
+  round: IMatchingRound
+): Promise<RoundParticipant[]> {
+  const busy = await Queue.distinct("user", {
+    user: { $in: round.participants },
+    status: { $in: ["matched", "booked"] },
+  });
+  const busyIds = new Set(busy.map((id) => id.toString()));
+
+  const users = await User.find({
+    _id: { $in: round.participants },
+    suspendedAt: null,
+  }).select("interests matchCount timezone availability");
+  const available = users.filter((user) => !busyIds.has(user.id));
+  const ids = available.map((user) => user.id);
+
+  const blocked = await getBlocksAmong(ids);
+
+  return available.map((user) => ({
+    userId: user.id,
+    interests: user.interests,
+    timezone: user.timezone,
+    availability: user.availability,
+    matchCount: Object.fromEntries(user.matchCount || []),
+    blocked: blocked.get(user.id) || [],
+  }));
+}
+
+/**
+ * Dry run: the pairs the round would produce right now.
+ */
+export const previewRound = async (round: IMatchingRound) => {
+  return planRound(await loadParticipants(round), round.repeatPenalty);
+};
+
+/**
+ * Publishes a round: creates matched queue entries and notifications for
+ * every pair, and schedules the next round for weekly rounds.
+ */
+export const publishRound = async (roundId: string, actorId?: string) => {
+  const round = await MatchingRound.findOne({ _id: roundId, status: "open" });
+  if (!round) {
+    throw { status: 409, message: "Round is not open." };
+  }
+  const plan = await previewRound(round);
+
+  const published = await runInTransaction(async (session) => {
+    const claimed = await MatchingRound.findOneAndUpdate(
+      { _id: roundId, status: "open" },
+      {
+        status: "published",
+        publishedAt: new Date(),
+        publishedBy: actorId,
+        pairs: plan.pairs,
+        unmatched: plan.unmatched,
+      },
+      { new: true, session }
+    );
+    if (!claimed) {
+      throw { status: 409, message: "Round is not open." };
+    }
+
+    const context = {
+      actor: actorId || null,
+      reason: "round_published",
+      session,
+    };
+    for (const { users } of plan.pairs) {
+      const [a, b] = users;
+      // Paired users waiting in the on-demand queue are matched from there.
+      // Someone matched since the plan was made aborts the publish, so it
+      // can be retried with a fresh plan.
+      try {
+        await matchUser(a, { matchedWith: b, mode: "pair" }, context);
+        await matchUser(b, { matchedWith: a, mode: "pair" }, context);
+      } catch (error: any) {
+        if (!error.status) throw error;
+        throw {
+          status: 409,
+          message: "Participants changed while publishing. Try again.",
+        };
+      }
+      await recordMatch(a, b, session);
+    }
+
+    const notifications = await Notification.create(
+      [
+        ...plan.pairs.flatMap(({ users }) =>
+          users.map((user) => ({
+            user,
+            message: `You have a new match from the "${claimed.name}" round!`,
+            type: "round_match",
+          }))
+        ),
+        ...plan.unmatched.map((user) => ({
+          user,
+          message: `We couldn't find you a partner in the "${claimed.name}" round. You're welcome to book a call anytime.`,
+          type: "round_unmatched",
+        })),
+      ],
+      { session, ordered: true }
+    );
+
+    if (claimed.recurrence === "weekly") {
+      await MatchingRound.create(
+        [
+          {
+            name: claimed.name,
+            cutoffAt: new Date(claimed.cutoffAt.getTime() + WEEK_MS),
+            recurrence: claimed.recurrence,
+            autoPublish: claimed.autoPublish,
+            repeatPenalty: claimed.repeatPenalty,
+            createdBy: claimed.createdBy,
+          },
+        ],
+        { session }
+      );
+    }
+    return { round: claimed, notifications };
+  });
+
+  const users = await User.find({
+    _id: { $in: plan.pairs.flatMap((pair) => pair.users) },
+  }).select("name email bio interests department profilePictureUrl");
+  const byId = new Map(users.map((user) => [user.id, user]));
+  for (const pair of plan.pairs) {
+    const [a, b] = pair.users;
+    for (const [self, other] of [
+      [a, b],
+      [b, a],
+    ]) {
+      io?.to(self).emit("matchFound", {
+        matchedUser: byId.get(other),
+        round: published.round.id,
+        score: {
+          total: pair.weight,
+          sharedInterests: pair.sharedInterests,
+          pastMatches: pair.pastMatches,
+        },
+      });
+    }
+  }
+  for (const notification of published.notifications) {
+    io?.to(notification.user.toString()).emit("notification", notification);
+  }
+
+  return { round: published.round, plan };
+};
@@ -0,0 +1,125 @@
+// src/matching/scoring.ts
+import { envNumber } from "../utils/config";
+
+/**
+ * Weights used to rank waiting candidates. Tunable through the environment.
+ * - interests: awarded in full when both users list exactly the same interests
+ * - wait: awarded in full once the candidate waited `waitCapMinutes`
+ * - history: subtracted for every previous match between the two users
+ * - availability: awarded in full once the users share
+ *   `availabilityCapMinutes` of weekly availability
+ * - meetAgain: added (or subtracted) when both users said after a previous
+ *   call that they would (or wouldn't) meet again
+ * - rating: added for a candidate rated 5 on average, subtracted for 1
+ */
+export const MATCH_WEIGHTS = {
+  interests: envNumber("MATCH_WEIGHT_INTERESTS", 10),
+  wait: envNumber("MATCH_WEIGHT_WAIT", 5),
+  waitCapMinutes: envNumber("MATCH_WAIT_CAP_MINUTES", 60),
+  history: envNumber("MATCH_WEIGHT_HISTORY", 3),
+  availability: envNumber("MATCH_WEIGHT_AVAILABILITY", 4),
+  availabilityCapMinutes: envNumber("MATCH_AVAILABILITY_CAP_MINUTES", 60),
+  meetAgain: envNumber("MATCH_WEIGHT_MEET_AGAIN", 4),
+  rating: envNumber("MATCH_WEIGHT_RATING", 2),
+};
+
+export interface MatchScoreInput {
+  interests: string[];
+  candidateInterests: string[];
+  waitingSince: Date;
+  pastMatches: number; // How often the two users were matched before
+  overlapMinutes?: number; // Shared availability; undefined if either has none
+  meetAgain?: number; // -1..1 from post-call feedback; undefined if none
+  candidateRating?: number; // Average rating received; undefined if too few
+  now?: Date;
+}
+
+export interface MatchScore {
+  total: number;
+  sharedInterests: string[];
+  interestScore: number;
+  waitScore: number;
+  waitMinutes: number;
+  historyPenalty: number;
+  pastMatches: number;
+  availabilityScore: number;
+  overlapMinutes: number | null;
+  feedbackScore: number;
+  meetAgain: number | null;
+  candidateRating: number | null;
+}
+
+const normalize = (interests: string[] = []) =>
+  new Set(
+    interests.map((interest) => interest.trim().toLowerCase()).filter(Boolean)
+  );
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Scores a candidate for the user who is booking.
+ * Shared interests use Jaccard similarity so long interest lists aren't
+ * automatically favoured.
+ */
+export const scoreCandidate = ({
+  interests,
+  candidateInterests,
+  waitingSince,
+  pastMatches,
+  overlapMinutes,
+  meetAgain,
+  candidateRating,
+  now = new Date(),
+}: MatchScoreInput): MatchScore => {
+  const mine = normalize(interests);
+  const theirs = normalize(candidateInterests);
+  const sharedInterests = [...mine].filter((interest) => theirs.has(interest));
+  const unionSize = new Set([...mine, ...theirs]).size;
+  const interestScore = unionSize
+    ? (sharedInterests.length / unionSize) * MATCH_WEIGHTS.interests
+    : 0;
+
+  const waitMinutes = Math.max(
+    (now.getTime() - waitingSince.getTime()) / 60000,
+    0
+  );
+  const waitScore =
+    Math.min(waitMinutes / MATCH_WEIGHTS.waitCapMinutes, 1) *
+    MATCH_WEIGHTS.wait;
+
+  const historyPenalty = pastMatches * MATCH_WEIGHTS.history;
+
+  // Users without availability are neither favoured nor penalised
+  const availabilityScore =
+    overlapMinutes === undefined
+      ? 0
+      : Math.min(overlapMinutes / MATCH_WEIGHTS.availabilityCapMinutes, 1) *
+        MATCH_WEIGHTS.availability;
+
+  // Users without feedback are neither favoured nor penalised
+  const feedbackScore =
+    (meetAgain ?? 0) * MATCH_WEIGHTS.meetAgain +
+    (candidateRating === undefined ? 0 : (candidateRating - 3) / 2) *
+      MATCH_WEIGHTS.rating;
+
+  return {
+    total: round(
+      interestScore +
+        waitScore +
+        availabilityScore +
+        feedbackScore -
+        historyPenalty
+    ),
+    sharedInterests,
+    interestScore: round(interestScore),
+    waitScore: round(waitScore),
+    waitMinutes: Math.floor(waitMinutes),
+    historyPenalty: round(historyPenalty),
+    pastMatches,
+    availabilityScore: round(availabilityScore),
+    overlapMinutes: overlapMinutes === undefined ? null : overlapMinutes,
+    feedbackScore: round(feedbackScore),
+    meetAgain: meetAgain === undefined ? null : meetAgain,
+    candidateRating: candidateRating === undefined ? null : candidateRating,
+  };
+};
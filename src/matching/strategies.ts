@@ -0,0 +1,59 @@
+// src/matching/strategies.ts
+import { MatchingStrategy, ScoredCandidate } from "./types";
+
+const UNASSIGNED_DEPARTMENT = "";
+
+// Oldest first; entry id breaks ties so the order is always stable
+const byWaitingSince = (a: ScoredCandidate, b: ScoredCandidate) =>
+  a.entry.waitingSince.getTime() - b.entry.waitingSince.getTime() ||
+  a.entry.entryId.localeCompare(b.entry.entryId);
+
+/**
+ * First come, first served.
+ */
+export const fifoStrategy: MatchingStrategy = {
+  name: "fifo",
+  rank: (_requester, candidates) => [...candidates].sort(byWaitingSince),
+};
+
+/**
+ * Highest score first (shared interests, wait time, match history).
+ */
+export const interestStrategy: MatchingStrategy = {
+  name: "interest",
+  rank: (_requester, candidates) =>
+    [...candidates].sort(
+      (a, b) => b.score.total - a.score.total || byWaitingSince(a, b)
+    ),
+};
+
+/**
+ * Rotates each user through the departments: candidates from the department
+ * the requester has met least come first, their own department last.
+ * Within a department the longest-waiting candidate wins.
+ */
+export const roundRobinStrategy: MatchingStrategy = {
+  name: "round_robin",
+  rank: (requester, candidates) => {
+    const own = requester.department || UNASSIGNED_DEPARTMENT;
+    const departmentKey = (candidate: ScoredCandidate) => {
+      const department = candidate.entry.department || UNASSIGNED_DEPARTMENT;
+      return [
+        department === own ? 1 : 0,
+        requester.metDepartments[department] || 0,
+        department,
+      ] as const;
+    };
+
+    return [...candidates].sort((a, b) => {
+      const [ownA, metA, departmentA] = departmentKey(a);
+      const [ownB, metB, departmentB] = departmentKey(b);
+      return (
+        ownA - ownB ||
+        metA - metB ||
+        departmentA.localeCompare(departmentB) ||
+        byWaitingSince(a, b)
+      );
+    });
+  },
+};
@@ -0,0 +1,52 @@
+// src/matching/types.ts
+import { MatchScore } from "./scoring";
+import { AvailabilityWindow } from "../utils/availability";
+
+/**
+ * A waiting queue entry as seen by the matching strategies. Plain data, so
+ * strategies can run against an in-memory snapshot of the queue.
+ */
+export interface QueueSnapshotEntry {
+  entryId: string;
+  userId: string;
+  interests: string[];
+  department?: string;
+  timezone?: string;
+  availability?: AvailabilityWindow[];
+  averageRating?: number; // From post-call feedback, once rated often enough
+  waitingSince: Date;
+}
+
+/**
+ * The user who is booking a call.
+ */
+export interface MatchRequester {
+  userId: string;
+  interests: string[];
+  department?: string;
+  timezone?: string;
+  availability?: AvailabilityWindow[];
+  matchCount: Record<string, number>; // Previous matches per user id
+  metDepartments: Record<string, number>; // Previous partners per department
+  meetAgain?: Record<string, number>; // Post-call "meet again" (-1..1) per user id
+}
+
+export interface ScoredCandidate {
+  entry: QueueSnapshotEntry;
+  score: MatchScore;
+}
+
+export type MatchingStrategyName = "fifo" | "interest" | "round_robin";
+
+/**
+ * Orders the eligible candidates for a requester, best candidate first.
+ * Implementations must be pure and deterministic: the same input always
+ * produces the same order.
+ */
+export interface MatchingStrategy {
+  name: MatchingStrategyName;
+  rank(
+    requester: MatchRequester,
+    candidates: ScoredCandidate[]
+  ): ScoredCandidate[];
+}
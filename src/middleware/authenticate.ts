@@ -1,16 +1,63 @@
 // src/middleware/authenticate.ts
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
-import dotenv from "dotenv";
 import { Socket } from "socket.io";
 import User, { IUser } from "../models/User";
+import { touchSession, verifyAccessToken } from "../utils/auth";
+import {
+  findActivePersonalAccessToken,
+  isPersonalAccessToken,
+} from "../utils/personalAccessTokens";
+import { routeDeclaresScope } from "./requireScope";
 
-dotenv.config();
+const USER_FIELDS = "id name email role emailVerified suspendedAt";
 
-const JWT_SECRET = process.env.JWT_SECRET || "default_secret";
+/**
+ * Authenticates a personal access token. Only routes that declare a scope
+ * with `requireScope` accept these tokens.
+ */
+const authenticatePersonalAccessToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string
+): Promise<void> => {
+  if (!routeDeclaresScope(req)) {
+    res.status(403).json({
+      message: "Forbidden: personal access tokens are not accepted here.",
+    });
+    return;
+  }
+
+  const pat = await findActivePersonalAccessToken(token);
+  if (!pat) {
+    res.status(401).json({ message: "Unauthorized: Invalid token." });
+    return;
+  }
+
+  const user: IUser | null = await User.findById(pat.user).select(USER_FIELDS);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized: User not found." });
+    return;
+  }
+  if (user.suspendedAt) {
+    res.status(403).json({ message: "Forbidden: Account suspended." });
+    return;
+  }
+
+  req.user = {
+    id: user.id.toString(),
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    emailVerified: user.emailVerified,
+    scopes: pat.scopes,
+  };
+  next();
+};
 
 /**
  * Authenticate middleware that checks both cookies and Authorization headers.
+ * Accepts session access tokens (JWT) and personal access tokens.
  */
 export const authenticate = async (
   req: Request,
@@ -34,12 +81,17 @@ export const authenticate = async (
       return; // Ensure the function exits after sending the response
     }
 
-    // Verify the token
-    const decoded = jwt.verify(token, JWT_SECRET) as { id: string };
+    if (isPersonalAccessToken(token)) {
+      await authenticatePersonalAccessToken(req, res, next, token);
+      return;
+    }
+
+    // Verify the token and its session
+    const decoded = await verifyAccessToken(token);
 
     // Fetch the user from the database
     const user: IUser | null = await User.findById(decoded.id).select(
-      "id name email role"
+      USER_FIELDS
     );
 
     if (!user) {
@@ -48,14 +100,27 @@ export const authenticate = async (
       return; // Ensure the function exits after sending the response
     }
 
+    if (user.suspendedAt) {
+      res.status(403).json({ message: "Forbidden: Account suspended." });
+      return;
+    }
+
     // Attach user to request with all required properties
     req.user = {
       id: user.id.toString(),
       name: user.name,
       email: user.email,
       role: user.role,
+      sessionId: decoded.sid,
+      emailVerified: user.emailVerified,
     };
 
+    // Keep the device list's "last seen" fresh without blocking the request
+    touchSession(decoded.sid, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    }).catch((error) => console.error("Failed to touch session:", error));
+
     next(); // Proceed to the next middleware or route handler
   } catch (error) {
     console.error("Invalid token:", error);
@@ -75,13 +140,14 @@ export const authenticateSocket = async (
     const token = socket.handshake.auth.token;
     if (!token) throw new Error("Authentication required");
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { id: string };
+    const decoded = await verifyAccessToken(token);
 
     const user: IUser | null = await User.findById(decoded.id).select(
-      "id name email role"
+      USER_FIELDS
     );
 
     if (!user) throw new Error("User not found");
+    if (user.suspendedAt) throw new Error("Account suspended");
 
     // Attach user to socket data with all required properties
     socket.data.user = {
@@ -89,6 +155,8 @@ export const authenticateSocket = async (
       name: user.name,
       email: user.email,
       role: user.role,
+      sessionId: decoded.sid,
+      emailVerified: user.emailVerified,
     };
 
     next(); // Proceed to establish the Socket.IO connection
@@ -0,0 +1,26 @@
+// src/middleware/authorize.ts
+import { Request, Response, NextFunction } from "express";
+import { hasPermission, Permission } from "../utils/permissions";
+
+/**
+ * Middleware factory that only lets through users whose role grants every
+ * listed permission. Must run after `authenticate`.
+ */
+export const authorize =
+  (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ message: "Authentication required" });
+      return;
+    }
+
+    const allowed = permissions.every((permission) =>
+      hasPermission(req.user?.role, permission)
+    );
+    if (!allowed) {
+      res.status(403).json({ message: "Forbidden: insufficient permissions." });
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,30 @@
+// src/middleware/rateLimit.ts
+import rateLimit from "express-rate-limit";
+import { envNumber } from "../utils/config";
+
+type RouteGroup = "auth" | "queue" | "chat";
+
+const DEFAULTS: Record<RouteGroup, { windowMs: number; max: number }> = {
+  auth: { windowMs: 15 * 60 * 1000, max: 50 },
+  queue: { windowMs: 15 * 60 * 1000, max: 100 },
+  chat: { windowMs: 60 * 1000, max: 60 },
+};
+
+/**
+ * Builds the per-IP limiter for a route group. Each group can be tuned with
+ * RATE_LIMIT_<GROUP>_WINDOW_MS and RATE_LIMIT_<GROUP>_MAX.
+ */
+const createGroupLimiter = (group: RouteGroup) => {
+  const prefix = `RATE_LIMIT_${group.toUpperCase()}`;
+  return rateLimit({
+    windowMs: envNumber(`${prefix}_WINDOW_MS`, DEFAULTS[group].windowMs),
+    max: envNumber(`${prefix}_MAX`, DEFAULTS[group].max),
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { message: "Too many requests, please try again later." },
+  });
+};
+
+export const authLimiter = createGroupLimiter("auth");
+export const queueLimiter = createGroupLimiter("queue");
+export const chatLimiter = createGroupLimiter("chat");
@@ -0,0 +1,39 @@
+// src/middleware/requireScope.ts
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { TokenScope } from "../utils/permissions";
+
+export type ScopedHandler = RequestHandler & { requiredScope?: TokenScope };
+
+/**
+ * Declares the scope a route requires from personal access tokens.
+ * Place it after `authenticate`. Session (JWT) requests always pass; routes
+ * without a declared scope don't accept personal access tokens at all.
+ */
+export const requireScope = (scope: TokenScope): ScopedHandler => {
+  const handler: ScopedHandler = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    const scopes = req.user?.scopes;
+    if (scopes && !scopes.includes(scope)) {
+      res
+        .status(403)
+        .json({ message: `Forbidden: token lacks the "${scope}" scope.` });
+      return;
+    }
+    next();
+  };
+  handler.requiredScope = scope;
+  return handler;
+};
+
+/**
+ * Whether the route being served declared a scope with `requireScope`.
+ */
+export const routeDeclaresScope = (req: Request): boolean =>
+  Boolean(
+    req.route?.stack?.some(
+      (layer: { handle: ScopedHandler }) => layer.handle.requiredScope
+    )
+  );
@@ -0,0 +1,30 @@
+// src/middleware/requireVerifiedEmail.ts
+import { Request, Response, NextFunction } from "express";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Whether unverified accounts are blocked from matching and chat.
+ * Controlled by the REQUIRE_EMAIL_VERIFICATION setting.
+ */
+export const isEmailVerificationRequired = (): boolean =>
+  process.env.REQUIRE_EMAIL_VERIFICATION === "true";
+
+/**
+ * Middleware that rejects users whose email address is not verified yet.
+ * Must run after `authenticate`.
+ */
+export const requireVerifiedEmail = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (isEmailVerificationRequired() && !req.user?.emailVerified) {
+    res.status(403).json({
+      message: "Please verify your email address to use this feature.",
+    });
+    return;
+  }
+  next();
+};
@@ -2,6 +2,7 @@
 import { Request, Response, NextFunction } from "express";
 import mongoose from "mongoose";
 import User from "../models/User";
+import { isBlockedPair } from "../utils/blocks";
 
 /**
  * Middleware to validate if the current user has a match with the receiver.
@@ -38,7 +39,7 @@ export const validateMatch = async (
     // Check if receiverId is in user's matches
     const isMatched = user.matches.some((id) => id.equals(receiverId));
 
-    if (!isMatched) {
+    if (!isMatched || (await isBlockedPair(userId, receiverId))) {
       res.status(403).json({ message: "Chat not available with this user." });
       return;
     }
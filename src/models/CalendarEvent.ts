@@ -3,7 +3,9 @@ import mongoose, { Document, Schema } from "mongoose";
 
 export interface ICalendarEvent extends Document {
   organizer: mongoose.Types.ObjectId;
-  participant: mongoose.Types.ObjectId;
+  participant?: mongoose.Types.ObjectId; // Empty for pod events
+  pod?: mongoose.Types.ObjectId;
+  attendees: mongoose.Types.ObjectId[]; // Pod events: every invited member
   scheduledTime: Date;
   status: string; // e.g., 'pending', 'confirmed', 'canceled'
   videoLink: string;
@@ -15,7 +17,15 @@ export interface ICalendarEvent extends Document {
 const CalendarEventSchema: Schema = new Schema(
   {
     organizer: { type: Schema.Types.ObjectId, ref: "User", required: true },
-    participant: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    participant: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: function (this: ICalendarEvent) {
+        return !this.pod;
+      },
+    },
+    pod: { type: Schema.Types.ObjectId, ref: "Pod" },
+    attendees: [{ type: Schema.Types.ObjectId, ref: "User" }],
     scheduledTime: { type: Date, required: true },
     status: { type: String, default: "pending" },
     videoLink: { type: String, required: true },
@@ -24,6 +34,8 @@ const CalendarEventSchema: Schema = new Schema(
   { timestamps: true }
 );
 
+CalendarEventSchema.index({ attendees: 1 });
+
 export default mongoose.model<ICalendarEvent>(
   "CalendarEvent",
   CalendarEventSchema
@@ -0,0 +1,49 @@
+// src/models/CallFeedback.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * One participant's feedback about a call with one other participant.
+ * Created as `pending` when the appointment is confirmed; the reviewer is
+ * prompted once the scheduled time has passed.
+ */
+export interface ICallFeedback extends Document {
+  reviewer: mongoose.Types.ObjectId;
+  reviewee: mongoose.Types.ObjectId;
+  scheduledFor: Date; // When the call was due; prompts go out after it
+  status: "pending" | "submitted";
+  promptedAt?: Date;
+  rating?: number; // 1-5
+  wouldMeetAgain?: boolean;
+  notes?: string; // Encrypted; only ever shown to the reviewer
+  submittedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CallFeedbackSchema = new Schema<ICallFeedback>(
+  {
+    reviewer: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    reviewee: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    scheduledFor: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "submitted"],
+      default: "pending",
+    },
+    promptedAt: { type: Date },
+    rating: { type: Number, min: 1, max: 5 },
+    wouldMeetAgain: { type: Boolean },
+    notes: { type: String },
+    submittedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+CallFeedbackSchema.index({ status: 1, promptedAt: 1, scheduledFor: 1 });
+CallFeedbackSchema.index({ reviewer: 1, status: 1 });
+CallFeedbackSchema.index({ reviewee: 1, status: 1 });
+
+export default mongoose.model<ICallFeedback>(
+  "CallFeedback",
+  CallFeedbackSchema
+);
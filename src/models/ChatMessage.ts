@@ -9,6 +9,7 @@ export interface IMessage {
 
 export interface IChat extends Document {
   participants: mongoose.Types.ObjectId[]; // User IDs of both participants
+  pod?: mongoose.Types.ObjectId; // Set for group chats; participants are the pod members
   messages: IMessage[];
   lastMessageAt: Date; // Useful for sorting conversations
 }
@@ -29,6 +30,7 @@ const ChatSchema = new Schema<IChat>(
       { type: Schema.Types.ObjectId, ref: "User", required: true },
     ],
     messages: [MessageSchema], // Embed messages within conversation
+    pod: { type: Schema.Types.ObjectId, ref: "Pod" },
     lastMessageAt: { type: Date, default: Date.now },
   },
   { timestamps: true }
@@ -0,0 +1,65 @@
+// src/models/DateProposalThread.ts
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export type DateProposalStatus =
+  | "pending" // Waiting for the partner to accept or counter
+  | "accepted"
+  | "countered" // The partner answered with their own slots
+  | "withdrawn"; // Replaced by a newer proposal from the same user
+
+export interface IDateProposal {
+  _id: Types.ObjectId;
+  proposedBy: Types.ObjectId;
+  slots: Date[];
+  status: DateProposalStatus;
+  respondsTo?: Types.ObjectId; // The partner proposal this one counters
+  acceptedSlot?: Date;
+  createdAt: Date;
+}
+
+/**
+ * The scheduling conversation of one match. Proposals are only ever
+ * appended; their status records how each one was answered.
+ */
+export interface IDateProposalThread extends Document {
+  participants: Types.ObjectId[];
+  status: "open" | "accepted";
+  proposals: Types.DocumentArray<IDateProposal & Types.Subdocument>;
+  appointment?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DateProposalSchema = new Schema<IDateProposal>(
+  {
+    proposedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    slots: { type: [Date], required: true },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "countered", "withdrawn"],
+      default: "pending",
+    },
+    respondsTo: { type: Schema.Types.ObjectId },
+    acceptedSlot: { type: Date },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+const DateProposalThreadSchema = new Schema<IDateProposalThread>(
+  {
+    participants: [
+      { type: Schema.Types.ObjectId, ref: "User", required: true },
+    ],
+    status: { type: String, enum: ["open", "accepted"], default: "open" },
+    proposals: { type: [DateProposalSchema], default: [] },
+    appointment: { type: Date },
+  },
+  { timestamps: true }
+);
+
+DateProposalThreadSchema.index({ participants: 1, createdAt: -1 });
+
+export default mongoose.model<IDateProposalThread>(
+  "DateProposalThread",
+  DateProposalThreadSchema
+);
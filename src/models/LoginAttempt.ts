@@ -0,0 +1,32 @@
+// src/models/LoginAttempt.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Failed-login counter for a single throttle key, e.g. `email:jane@acme.io`
+ * or `ip:10.0.0.1`.
+ */
+export interface ILoginAttempt extends Document {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date; // Document is dropped once the counter is no longer relevant
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: { type: String, required: true, unique: true },
+    failures: { type: Number, default: 0 },
+    lastFailureAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILoginAttempt>(
+  "LoginAttempt",
+  LoginAttemptSchema
+);
@@ -0,0 +1,70 @@
+// src/models/MatchingRound.ts
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const ROUND_RECURRENCES = ["none", "weekly"] as const;
+export type RoundRecurrence = (typeof ROUND_RECURRENCES)[number];
+
+export interface IRoundPair {
+  users: Types.ObjectId[];
+  weight: number;
+  sharedInterests: string[];
+  pastMatches: number;
+}
+
+/**
+ * A batch matching round. Users opt in until `cutoffAt`; publishing pairs
+ * everyone in one optimal pass and creates their matched queue entries.
+ */
+export interface IMatchingRound extends Document {
+  name: string;
+  cutoffAt: Date; // Opt-ins close; auto-published rounds run at this time
+  recurrence: RoundRecurrence; // "weekly" schedules the next round on publish
+  autoPublish: boolean;
+  repeatPenalty: number; // Weight subtracted per previous match of a pair
+  status: "open" | "published" | "cancelled";
+  participants: Types.ObjectId[];
+  pairs: IRoundPair[];
+  unmatched: Types.ObjectId[];
+  createdBy?: Types.ObjectId;
+  publishedAt?: Date;
+  publishedBy?: Types.ObjectId; // Empty when published by the scheduler
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MatchingRoundSchema = new Schema<IMatchingRound>(
+  {
+    name: { type: String, required: true, trim: true },
+    cutoffAt: { type: Date, required: true },
+    recurrence: { type: String, enum: ROUND_RECURRENCES, default: "none" },
+    autoPublish: { type: Boolean, default: true },
+    repeatPenalty: { type: Number, min: 0, default: 5 },
+    status: {
+      type: String,
+      enum: ["open", "published", "cancelled"],
+      default: "open",
+    },
+    participants: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    pairs: [
+      {
+        _id: false,
+        users: [{ type: Schema.Types.ObjectId, ref: "User" }],
+        weight: { type: Number },
+        sharedInterests: { type: [String], default: [] },
+        pastMatches: { type: Number, default: 0 },
+      },
+    ],
+    unmatched: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    publishedAt: { type: Date },
+    publishedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+MatchingRoundSchema.index({ status: 1, cutoffAt: 1 });
+
+export default mongoose.model<IMatchingRound>(
+  "MatchingRound",
+  MatchingRoundSchema
+);
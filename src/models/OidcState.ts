@@ -0,0 +1,35 @@
+// src/models/OidcState.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Pending OIDC authorization request. Holds the PKCE verifier and nonce
+ * between the redirect to the identity provider and the callback.
+ */
+export interface IOidcState extends Document {
+  state: string;
+  codeVerifier: string;
+  nonce: string;
+  purpose: "login" | "reauthentication";
+  user?: mongoose.Types.ObjectId; // Signed-in user confirming their identity
+  expiresAt: Date;
+}
+
+const OidcStateSchema = new Schema<IOidcState>(
+  {
+    state: { type: String, required: true, unique: true },
+    codeVerifier: { type: String, required: true },
+    nonce: { type: String, required: true },
+    purpose: {
+      type: String,
+      enum: ["login", "reauthentication"],
+      default: "login",
+    },
+    user: { type: Schema.Types.ObjectId, ref: "User" },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+OidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IOidcState>("OidcState", OidcStateSchema);
@@ -0,0 +1,27 @@
+// src/models/PasswordReset.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IPasswordReset extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 of the token sent by email
+  expiresAt: Date;
+  usedAt?: Date; // Set once the token has been redeemed
+  createdAt: Date;
+}
+
+const PasswordResetSchema = new Schema<IPasswordReset>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+PasswordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IPasswordReset>(
+  "PasswordReset",
+  PasswordResetSchema
+);
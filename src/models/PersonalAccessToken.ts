@@ -0,0 +1,40 @@
+// src/models/PersonalAccessToken.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * A named, scoped token for integrations (bots, dashboards). Only the hash
+ * is stored; the token itself is shown once when it is created.
+ */
+export interface IPersonalAccessToken extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  tokenHash: string; // SHA-256 of the full token
+  prefix: string; // First characters of the token, to recognise it in lists
+  scopes: string[];
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PersonalAccessTokenSchema = new Schema<IPersonalAccessToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    tokenHash: { type: String, required: true, unique: true },
+    prefix: { type: String, required: true },
+    scopes: { type: [String], default: [] },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date },
+    revokedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+PersonalAccessTokenSchema.index({ user: 1 });
+
+export default mongoose.model<IPersonalAccessToken>(
+  "PersonalAccessToken",
+  PersonalAccessTokenSchema
+);
@@ -0,0 +1,41 @@
+// src/models/Pod.ts
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+/**
+ * A group match of several users (a triad or small pod). Members share one
+ * group chat and at most one calendar event.
+ */
+export interface IPod extends Document {
+  members: Types.ObjectId[];
+  size: number; // Size the pod was formed with; members may leave later
+  status: "active" | "completed" | "disbanded";
+  chat: Types.ObjectId;
+  event?: Types.ObjectId; // Group call scheduled for the pod
+  sharedInterests: string[]; // Interests every member listed
+  completedAt?: Date; // When every member confirmed the group call
+  disbandedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PodSchema = new Schema<IPod>(
+  {
+    members: [{ type: Schema.Types.ObjectId, ref: "User", required: true }],
+    size: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["active", "completed", "disbanded"],
+      default: "active",
+    },
+    chat: { type: Schema.Types.ObjectId, ref: "Chat" },
+    event: { type: Schema.Types.ObjectId, ref: "CalendarEvent" },
+    sharedInterests: { type: [String], default: [] },
+    completedAt: { type: Date },
+    disbandedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+PodSchema.index({ members: 1, status: 1 });
+
+export default mongoose.model<IPod>("Pod", PodSchema);
@@ -1,11 +1,24 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export const QUEUE_STATES = ["idle", "waiting", "matched", "booked"] as const;
+export type QueueState = (typeof QUEUE_STATES)[number];
+
+/**
+ * A user's place in the queue. Only change entries through
+ * `utils/queueStateMachine`, which checks and logs every transition.
+ * `idle` users have no active entry.
+ */
 export interface IQueue extends Document {
   user: mongoose.Types.ObjectId;
-  status: "idle" | "waiting" | "matched" | "booked";
+  status: QueueState;
   matchedWith?: mongoose.Types.ObjectId;
   appointment?: Date; // Saved appointment date once booked
-  confirmedDate?: Date; // The provisional date submitted by the user
+  confirmedDate?: Date; // Legacy single provisional date, see DateProposalThread
+  expiresAt?: Date; // When a waiting entry is swept from the queue
+  requeueCount: number; // Times the sweeper extended this waiting entry
+  mode: "pair" | "group"; // One-to-one call or group pod
+  podSize?: number; // Requested pod size for group entries
+  pod?: mongoose.Types.ObjectId; // Set instead of matchedWith in group mode
 }
 
 const QueueSchema = new Schema<IQueue>(
@@ -13,14 +26,31 @@ const QueueSchema = new Schema<IQueue>(
     user: { type: Schema.Types.ObjectId, ref: "User", required: true },
     status: {
       type: String,
-      enum: ["idle", "waiting", "matched", "booked"],
+      enum: QUEUE_STATES,
       required: true,
     },
     matchedWith: { type: Schema.Types.ObjectId, ref: "User" },
     appointment: { type: Date }, // 🔥 Optional appointment date
     confirmedDate: { type: Date }, // New field for storing confirmed date
+    expiresAt: { type: Date },
+    requeueCount: { type: Number, default: 0 },
+    mode: { type: String, enum: ["pair", "group"], default: "pair" },
+    podSize: { type: Number },
+    pod: { type: Schema.Types.ObjectId, ref: "Pod" },
   },
   { timestamps: true }
 );
 
+QueueSchema.index({ status: 1, expiresAt: 1 });
+// At most one active entry per user, even when two requests race
+QueueSchema.index(
+  { user: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: { $in: ["waiting", "matched", "booked"] },
+    },
+  }
+);
+
 export default mongoose.model<IQueue>("Queue", QueueSchema);
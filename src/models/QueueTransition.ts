@@ -0,0 +1,72 @@
+// src/models/QueueTransition.ts
+import mongoose, { Document, Schema } from "mongoose";
+import { QUEUE_STATES, QueueState } from "./Queue";
+
+export const QUEUE_EVENTS = [
+  "join", // Joined the waiting queue
+  "match", // Paired with someone (or a pod)
+  "unclaim", // A tentative match was rolled back
+  "requeue", // Waiting time extended by the sweeper
+  "expire", // Waiting time ran out
+  "leave", // Left the waiting queue
+  "book", // Appointment booked or moved
+  "skip", // Match skipped without a call
+  "complete", // Appointment confirmed
+  "cancel", // Match cancelled by a participant
+  "release", // Match ended by something else (account deleted, pod closed)
+] as const;
+export type QueueEvent = (typeof QUEUE_EVENTS)[number];
+
+/**
+ * One queue state transition. The log is append-only: entries are never
+ * updated, and only removed when the user's account is erased.
+ */
+export interface IQueueTransition extends Document {
+  entry: mongoose.Types.ObjectId; // Queue entry (may no longer exist)
+  user: mongoose.Types.ObjectId;
+  event: QueueEvent;
+  from: QueueState;
+  to: QueueState;
+  actor?: mongoose.Types.ObjectId; // Empty for system actions (sweeper, scheduler)
+  reason: string;
+  createdAt: Date;
+}
+
+const QueueTransitionSchema = new Schema<IQueueTransition>(
+  {
+    entry: { type: Schema.Types.ObjectId, ref: "Queue", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    event: { type: String, enum: QUEUE_EVENTS, required: true },
+    from: { type: String, enum: QUEUE_STATES, required: true },
+    to: { type: String, enum: QUEUE_STATES, required: true },
+    actor: { type: Schema.Types.ObjectId, ref: "User" },
+    reason: { type: String, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+QueueTransitionSchema.index({ user: 1, createdAt: -1 });
+QueueTransitionSchema.index({ entry: 1, createdAt: 1 });
+
+const rejectUpdate = () => {
+  throw new Error("Queue transitions are append-only.");
+};
+QueueTransitionSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+  ],
+  rejectUpdate
+);
+QueueTransitionSchema.pre("save", function (next) {
+  if (!this.isNew) return rejectUpdate();
+  next();
+});
+
+export default mongoose.model<IQueueTransition>(
+  "QueueTransition",
+  QueueTransitionSchema
+);
@@ -0,0 +1,42 @@
+// src/models/Session.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * A server-side login session. Each session is one refresh-token family:
+ * every refresh rotates `tokenHash`, and presenting a superseded token
+ * revokes the whole session.
+ */
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 of the current refresh token secret
+  expiresAt: Date;
+  lastUsedAt: Date; // Last refresh-token rotation
+  lastSeenAt: Date; // Last authenticated request or socket connection
+  userAgent?: string;
+  ip?: string;
+  revokedAt?: Date;
+  revokedReason?: string; // e.g., 'logout', 'token_reuse'
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    tokenHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: Date.now },
+    lastSeenAt: { type: Date, default: Date.now },
+    userAgent: { type: String },
+    ip: { type: String },
+    revokedAt: { type: Date },
+    revokedReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+SessionSchema.index({ user: 1 });
+// Let MongoDB drop sessions once the refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>("Session", SessionSchema);
@@ -1,10 +1,15 @@
 // src/models/User.ts
 import mongoose, { Document, Schema } from "mongoose";
+import { ROLES, isRole, normalizeRole } from "../utils/permissions";
+import { AvailabilityWindow } from "../utils/availability";
 export interface IUserPayload {
   id: string;
   name: string;
   email: string;
   role: string;
+  sessionId?: string; // Server-side session the access token belongs to
+  emailVerified?: boolean;
+  scopes?: string[]; // Only set when authenticated with a personal access token
 }
 export interface IUser extends Document {
   email: string;
@@ -13,10 +18,29 @@ export interface IUser extends Document {
   role?: string;
   interests: string[];
   bio: string;
+  department?: string; // Used by the round-robin matching strategy
+  timezone: string; // IANA timezone, e.g. "Europe/Rome"
+  availability: AvailabilityWindow[]; // Weekly windows in `timezone`
   profilePictureUrl?: string;
+  profilePicturePublicId?: string; // Cloudinary asset id, used to delete it
   createdAt: Date;
   matches: mongoose.Types.ObjectId[]; // Add matches array
   matchCount?: Map<string, number>; // Track match counts with specific users
+  lastMatchedAt?: Map<string, Date>; // Last match date per partner (rematch cooldown)
+  autoRequeue: boolean; // Re-queue automatically when a waiting entry expires
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  verificationSentAt?: Date; // Last time a verification email went out
+  suspendedAt?: Date; // Set while an admin/moderator has suspended the account
+  suspensionReason?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // Base32 TOTP secret, set once enrollment is confirmed
+  twoFactorPendingSecret?: string; // Secret awaiting its first valid code
+  twoFactorBackupCodes: string[]; // SHA-256 hashes of unused backup codes
+  twoFactorLastStep?: number; // Last accepted TOTP time step (replay guard)
+  oidcIssuer?: string; // Identity provider the account is linked to
+  oidcSubject?: string; // `sub` claim at that identity provider
+  hasPassword: boolean; // False for SSO-provisioned accounts until one is set
 }
 
 const UserSchema: Schema = new Schema<IUser>(
@@ -24,10 +48,24 @@ const UserSchema: Schema = new Schema<IUser>(
     email: { type: String, required: true, unique: true },
     password: { type: String, required: true },
     name: { type: String, required: true },
-    role: { type: String, default: "User" },
+    role: { type: String, enum: ROLES, lowercase: true, default: "user" },
     interests: { type: [String], default: [] },
     bio: { type: String, default: "" },
+    department: { type: String, trim: true },
+    timezone: { type: String, default: "UTC" },
+    availability: {
+      type: [
+        {
+          _id: false,
+          day: { type: Number, min: 0, max: 6, required: true },
+          start: { type: String, required: true },
+          end: { type: String, required: true },
+        },
+      ],
+      default: [],
+    },
     profilePictureUrl: { type: String },
+    profilePicturePublicId: { type: String },
     matches: [
       {
         type: Schema.Types.ObjectId,
@@ -40,8 +78,42 @@ const UserSchema: Schema = new Schema<IUser>(
       of: Number,
       default: {},
     },
+    lastMatchedAt: {
+      type: Map,
+      of: Date,
+      default: {},
+    },
+    autoRequeue: { type: Boolean, default: false },
+    emailVerified: { type: Boolean, default: false },
+    emailVerifiedAt: { type: Date },
+    verificationSentAt: { type: Date },
+    suspendedAt: { type: Date },
+    suspensionReason: { type: String },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String, select: false },
+    twoFactorPendingSecret: { type: String, select: false },
+    twoFactorBackupCodes: { type: [String], default: [], select: false },
+    twoFactorLastStep: { type: Number, select: false },
+    oidcIssuer: { type: String },
+    oidcSubject: { type: String },
+    hasPassword: { type: Boolean, default: true },
   },
   { timestamps: true }
 );
 
+// Accounts created before roles were enforced may hold "User" or a value the
+// client sent; fix those up so saving them doesn't fail validation
+UserSchema.pre("validate", function (next) {
+  if (!isRole(this.role)) this.role = normalizeRole(this.role);
+  next();
+});
+
+UserSchema.index(
+  { oidcIssuer: 1, oidcSubject: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { oidcSubject: { $type: "string" } },
+  }
+);
+
 export default mongoose.model<IUser>("User", UserSchema);
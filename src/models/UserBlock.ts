@@ -0,0 +1,29 @@
+// src/models/UserBlock.ts
+import mongoose, { Document, Schema } from "mongoose";
+import { REPORT_REASONS } from "./UserReport";
+
+/**
+ * One user blocking another. A block works in both directions: neither user
+ * is matched with or can message the other.
+ */
+export interface IUserBlock extends Document {
+  blocker: mongoose.Types.ObjectId;
+  blocked: mongoose.Types.ObjectId;
+  reason?: string; // One of REPORT_REASONS
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserBlockSchema = new Schema<IUserBlock>(
+  {
+    blocker: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    blocked: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    reason: { type: String, enum: REPORT_REASONS },
+  },
+  { timestamps: true }
+);
+
+UserBlockSchema.index({ blocker: 1, blocked: 1 }, { unique: true });
+UserBlockSchema.index({ blocked: 1 });
+
+export default mongoose.model<IUserBlock>("UserBlock", UserBlockSchema);
@@ -0,0 +1,54 @@
+// src/models/UserReport.ts
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Reason taxonomy shared by reports and blocks.
+ */
+export const REPORT_REASONS = [
+  "harassment",
+  "inappropriate_behavior",
+  "spam",
+  "no_show",
+  "impersonation",
+  "safety_concern",
+  "other",
+] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_STATUSES = ["open", "actioned", "dismissed"] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+/**
+ * A report about another user, reviewed by moderators.
+ */
+export interface IUserReport extends Document {
+  reporter: mongoose.Types.ObjectId;
+  reported: mongoose.Types.ObjectId;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserReportSchema = new Schema<IUserReport>(
+  {
+    reporter: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    reported: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    reason: { type: String, enum: REPORT_REASONS, required: true },
+    details: { type: String, maxlength: 2000 },
+    status: { type: String, enum: REPORT_STATUSES, default: "open" },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    reviewedAt: { type: Date },
+    resolutionNote: { type: String },
+  },
+  { timestamps: true }
+);
+
+UserReportSchema.index({ status: 1, createdAt: -1 });
+UserReportSchema.index({ reported: 1 });
+
+export default mongoose.model<IUserReport>("UserReport", UserReportSchema);
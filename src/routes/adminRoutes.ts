@@ -0,0 +1,602 @@
+// src/routes/adminRoutes.ts
+import express, { Request, Response, NextFunction } from "express";
+import { body, param, query, validationResult } from "express-validator";
+import { authenticate } from "../middleware/authenticate";
+import { authorize } from "../middleware/authorize";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ROLES } from "../utils/permissions";
+import { REPORT_STATUSES } from "../models/UserReport";
+import { ROUND_RECURRENCES } from "../models/MatchingRound";
+import {
+  listUsers,
+  getUser,
+  suspendUser,
+  unsuspendUser,
+  updateUserRole,
+  listReports,
+  resolveReport,
+  listQueueTransitions,
+  listFeedbackSummaries,
+  getUserFeedback,
+} from "../controllers/adminController";
+import {
+  createRound,
+  listRounds,
+  updateRound,
+  previewRoundPairs,
+  publishRoundNow,
+} from "../controllers/roundController";
+
+const router = express.Router();
+
+const validateRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const userIdParam = param("userId")
+  .isMongoId()
+  .withMessage("Invalid user ID format.");
+
+// Every admin route requires a signed-in user
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin
+ *   description: User administration, report review and matching rounds
+ */
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List and search users
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive search on name and email
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [user, moderator, admin]
+ *       - in: query
+ *         name: suspended
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated list of users
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get("/users", authorize("users:read"), asyncHandler(listUsers));
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get a user
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: User details
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/users/:userId",
+  authorize("users:read"),
+  [userIdParam],
+  validateRequest,
+  asyncHandler(getUser)
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/suspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Suspend a user
+ *     description: Blocks the user from logging in and revokes all of their sessions.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *       400:
+ *         description: Cannot suspend yourself
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  "/users/:userId/suspend",
+  authorize("users:suspend"),
+  [userIdParam, body("reason").optional().isString()],
+  validateRequest,
+  asyncHandler(suspendUser)
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/unsuspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Lift a suspension
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: User reinstated
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  "/users/:userId/unsuspend",
+  authorize("users:suspend"),
+  [userIdParam],
+  validateRequest,
+  asyncHandler(unsuspendUser)
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/role:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Change a user's role
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [user, moderator, admin]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Invalid role or attempting to change your own role
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.patch(
+  "/users/:userId/role",
+  authorize("users:manage_roles"),
+  [userIdParam, body("role").isIn(ROLES).withMessage("Invalid role.")],
+  validateRequest,
+  asyncHandler(updateUserRole)
+);
+
+/**
+ * @swagger
+ * /api/admin/reports:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List user reports
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, actioned, dismissed, all]
+ *           default: open
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated list of reports
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get(
+  "/reports",
+  authorize("reports:review"),
+  [
+    query("status")
+      .optional()
+      .isIn([...REPORT_STATUSES, "all"])
+      .withMessage("Invalid status."),
+  ],
+  validateRequest,
+  asyncHandler(listReports)
+);
+
+/**
+ * @swagger
+ * /api/admin/reports/{reportId}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Resolve a report
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [open, actioned, dismissed]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Report updated
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Report not found
+ */
+router.patch(
+  "/reports/:reportId",
+  authorize("reports:review"),
+  [
+    param("reportId").isMongoId().withMessage("Invalid report ID format."),
+    body("status").isIn(REPORT_STATUSES).withMessage("Invalid status."),
+    body("note").optional().isString(),
+  ],
+  validateRequest,
+  asyncHandler(resolveReport)
+);
+
+/**
+ * @swagger
+ * /api/admin/feedback:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Post-call feedback aggregated per user
+ *     description: Ratings and "would meet again" rates received. Private notes are never included.
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [rating, meetAgain, count]
+ *           default: rating
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated feedback summaries
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get(
+  "/feedback",
+  authorize("feedback:read"),
+  [
+    query("sort")
+      .optional()
+      .isIn(["rating", "meetAgain", "count"])
+      .withMessage("Invalid sort."),
+  ],
+  validateRequest,
+  asyncHandler(listFeedbackSummaries)
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/feedback:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Feedback a user received
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Summary and recent feedback, without private notes
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/users/:userId/feedback",
+  authorize("feedback:read"),
+  [userIdParam],
+  validateRequest,
+  asyncHandler(getUserFeedback)
+);
+
+/**
+ * @swagger
+ * /api/admin/queue-transitions:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Read the queue transition log
+ *     description: Every queue state change with its actor (empty for system actions) and reason.
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entryId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated transitions, newest first
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get(
+  "/queue-transitions",
+  authorize("users:read"),
+  [
+    query("userId").optional().isMongoId().withMessage("Invalid user ID."),
+    query("entryId").optional().isMongoId().withMessage("Invalid entry ID."),
+  ],
+  validateRequest,
+  asyncHandler(listQueueTransitions)
+);
+
+const roundIdParam = param("roundId")
+  .isMongoId()
+  .withMessage("Invalid round ID format.");
+
+const roundConfigValidators = (required: boolean) => {
+  const field = (name: string) =>
+    required ? body(name) : body(name).optional();
+  return [
+    field("name").isString().trim().notEmpty().withMessage("Name is required."),
+    field("cutoffAt")
+      .isISO8601()
+      .withMessage("Cutoff must be a valid date.")
+      .custom((value) => new Date(value) > new Date())
+      .withMessage("Cutoff must be in the future."),
+    body("recurrence")
+      .optional()
+      .isIn(ROUND_RECURRENCES)
+      .withMessage("Invalid recurrence."),
+    body("autoPublish")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("autoPublish must be a boolean."),
+    body("repeatPenalty")
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage("repeatPenalty must be a non-negative number."),
+  ];
+};
+
+/**
+ * @swagger
+ * /api/admin/rounds:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a matching round
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, cutoffAt]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               cutoffAt:
+ *                 type: string
+ *                 format: date-time
+ *               recurrence:
+ *                 type: string
+ *                 enum: [none, weekly]
+ *               autoPublish:
+ *                 type: boolean
+ *                 description: Publish automatically once the cutoff has passed
+ *               repeatPenalty:
+ *                 type: number
+ *                 description: Weight subtracted per previous match of a pair
+ *     responses:
+ *       201:
+ *         description: Round created
+ *       403:
+ *         description: Insufficient permissions
+ *   get:
+ *     tags: [Admin]
+ *     summary: List matching rounds
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, published, cancelled]
+ *     responses:
+ *       200:
+ *         description: Rounds, newest cutoff first
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post(
+  "/rounds",
+  authorize("rounds:manage"),
+  roundConfigValidators(true),
+  validateRequest,
+  asyncHandler(createRound)
+);
+
+router.get("/rounds", authorize("rounds:manage"), asyncHandler(listRounds));
+
+/**
+ * @swagger
+ * /api/admin/rounds/{roundId}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update or cancel an open round
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               cutoffAt:
+ *                 type: string
+ *                 format: date-time
+ *               recurrence:
+ *                 type: string
+ *                 enum: [none, weekly]
+ *               autoPublish:
+ *                 type: boolean
+ *               repeatPenalty:
+ *                 type: number
+ *               status:
+ *                 type: string
+ *                 enum: [cancelled]
+ *     responses:
+ *       200:
+ *         description: Round updated
+ *       404:
+ *         description: Round not found or not open
+ */
+router.patch(
+  "/rounds/:roundId",
+  authorize("rounds:manage"),
+  [
+    roundIdParam,
+    ...roundConfigValidators(false),
+    body("status")
+      .optional()
+      .equals("cancelled")
+      .withMessage("Rounds can only be cancelled here."),
+  ],
+  validateRequest,
+  asyncHandler(updateRound)
+);
+
+/**
+ * @swagger
+ * /api/admin/rounds/{roundId}/preview:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Dry-run a round
+ *     description: Returns the pairs and unmatched participants publishing would produce now. Nothing is saved.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Planned pairs with weights, unmatched users and total weight
+ *       404:
+ *         description: Round not found
+ *       409:
+ *         description: Round is not open
+ */
+router.get(
+  "/rounds/:roundId/preview",
+  authorize("rounds:manage"),
+  [roundIdParam],
+  validateRequest,
+  asyncHandler(previewRoundPairs)
+);
+
+/**
+ * @swagger
+ * /api/admin/rounds/{roundId}/publish:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Publish a round now
+ *     description: Creates matched queue entries and notifications for every pair.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Round published
+ *       404:
+ *         description: Round not found
+ *       409:
+ *         description: Round is not open
+ */
+router.post(
+  "/rounds/:roundId/publish",
+  authorize("rounds:manage"),
+  [roundIdParam],
+  validateRequest,
+  asyncHandler(publishRoundNow)
+);
+
+export default router;
@@ -1,12 +1,70 @@
 // src/routes/authRoutes.ts
-import express from "express";
-import { register, login, verify } from "../controllers/authController";
+import express, { Request, Response, NextFunction } from "express";
+import {
+  register,
+  login,
+  verify,
+  refresh,
+  logout,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  loginTwoFactor,
+  changePassword,
+} from "../controllers/authController";
+import {
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateBackupCodes,
+  disableTwoFactor,
+} from "../controllers/twoFactorController";
+import {
+  getMe,
+  updateMe,
+  updateProfilePicture,
+} from "../controllers/profileController";
+import {
+  exportAccountData,
+  deleteAccount,
+} from "../controllers/accountController";
+import {
+  listSessions,
+  revokeOneSession,
+  revokeOtherSessions,
+} from "../controllers/sessionController";
+import {
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken,
+} from "../controllers/personalAccessTokenController";
+import { TOKEN_SCOPES } from "../utils/permissions";
+import {
+  oidcLogin,
+  oidcReauth,
+  oidcCallback,
+} from "../controllers/oidcController";
 import parser from "../middleware/upload";
+import { authenticate } from "../middleware/authenticate";
 import { asyncHandler } from "../utils/asyncHandler";
-import { body } from "express-validator";
+import { passwordPolicyValidator } from "../utils/passwordPolicy";
+import { body, param, validationResult } from "express-validator";
 
 const router = express.Router();
 
+const validateRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
 /**
  * @swagger
  * /api/auth/register:
@@ -28,10 +86,6 @@ const router = express.Router();
  *         type: string
  *         required: true
  *       - in: formData
- *         name: role
- *         type: string
- *         required: true
- *       - in: formData
  *         name: interests
  *         type: string
  *       - in: formData
@@ -49,12 +103,10 @@ router.post(
   parser.single("profilePicture"),
   [
     body("email").isEmail().withMessage("Please provide a valid email."),
-    body("password")
-      .isLength({ min: 6 })
-      .withMessage("Password must be at least 6 characters."),
+    body("password").custom(passwordPolicyValidator),
     body("name").notEmpty().withMessage("Name is required."),
-    body("role").notEmpty().withMessage("Role is required."),
   ],
+  validateRequest,
   //@ts-ignore
   asyncHandler(register)
 );
@@ -81,7 +133,7 @@ router.post(
  *               type: string
  *     responses:
  *       200:
- *         description: Logged in successfully
+ *         description: Logged in successfully, or `twoFactorRequired` with a `challengeToken` when the account has 2FA enabled
  */
 router.post(
   "/login",
@@ -93,6 +145,48 @@ router.post(
   asyncHandler(login)
 );
 
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: Exchange the challenge token from `/login` plus a TOTP or backup code for a session.
+ *     consumes:
+ *       - application/json
+ *     parameters:
+ *       - in: body
+ *         name: body
+ *         schema:
+ *           type: object
+ *           required:
+ *             - challengeToken
+ *             - code
+ *           properties:
+ *             challengeToken:
+ *               type: string
+ *             code:
+ *               type: string
+ *     responses:
+ *       200:
+ *         description: Logged in successfully
+ *       400:
+ *         description: Invalid verification code
+ *       401:
+ *         description: Challenge invalid or expired
+ */
+router.post(
+  "/login/2fa",
+  [
+    body("challengeToken")
+      .notEmpty()
+      .withMessage("Challenge token is required."),
+    body("code").isString().notEmpty().withMessage("Code is required."),
+  ],
+  validateRequest,
+  //@ts-ignore
+  asyncHandler(loginTwoFactor)
+);
+
 /**
  * @swagger
  * /api/auth/verify:
@@ -117,4 +211,694 @@ router.post(
 //@ts-ignore
 router.get("/verify", asyncHandler(verify));
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Rotate the refresh token
+ *     description: Exchange a refresh token for a new access token and refresh token. Reusing an already-rotated refresh token revokes the whole session.
+ *     consumes:
+ *       - application/json
+ *     parameters:
+ *       - in: body
+ *         name: body
+ *         schema:
+ *           type: object
+ *           required:
+ *             - refreshToken
+ *           properties:
+ *             refreshToken:
+ *               type: string
+ *     responses:
+ *       200:
+ *         description: New token pair issued
+ *       401:
+ *         description: Refresh token invalid, expired, reused or revoked
+ */
+router.post(
+  "/refresh",
+  [body("refreshToken").isString().withMessage("Refresh token is required.")],
+  validateRequest,
+  //@ts-ignore
+  asyncHandler(refresh)
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Logout
+ *     description: Revoke the session behind the current access token.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+//@ts-ignore
+router.post("/logout", authenticate, asyncHandler(logout));
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: Sends a single-use reset link if the email is registered. The response is the same either way.
+ *     consumes:
+ *       - application/json
+ *     parameters:
+ *       - in: body
+ *         name: body
+ *         schema:
+ *           type: object
+ *           required:
+ *             - email
+ *           properties:
+ *             email:
+ *               type: string
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the email exists
+ */
+router.post(
+  "/forgot-password",
+  [body("email").isEmail().withMessage("Please provide a valid email.")],
+  validateRequest,
+  //@ts-ignore
+  asyncHandler(forgotPassword)
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Reset password with a reset token
+ *     description: Sets a new password and signs the user out everywhere.
+ *     consumes:
+ *       - application/json
+ *     parameters:
+ *       - in: body
+ *         name: body
+ *         schema:
+ *           type: object
+ *           required:
+ *             - token
+ *             - password
+ *           properties:
+ *             token:
+ *               type: string
+ *             password:
+ *               type: string
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Reset link invalid or expired
+ */
+router.post(
+  "/reset-password",
+  [
+    body("token").notEmpty().withMessage("Token is required."),
+    body("password").custom(passwordPolicyValidator),
+  ],
+  validateRequest,
+  //@ts-ignore
+  asyncHandler(resetPassword)
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     description: Confirm the user's email address with the signed token from the verification email. The token may also be passed as a `token` query parameter.
+ *     consumes:
+ *       - application/json
+ *     parameters:
+ *       - in: body
+ *         name: body
+ *         schema:
+ *           type: object
+ *           properties:
+ *             token:
+ *               type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Verification link invalid or expired
+ */
+//@ts-ignore
+router.post("/verify-email", asyncHandler(verifyEmail));
+//@ts-ignore
+router.get("/verify-email", asyncHandler(verifyEmail));
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Resend the verification email
+ *     description: Sends a new verification link. Limited to one email every 5 minutes.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email already verified
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         description: Verification email sent too recently
+ */
+router.post(
+  "/resend-verification",
+  authenticate,
+  //@ts-ignore
+  asyncHandler(resendVerification)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Returns a new TOTP secret and otpauth URI. 2FA is enabled only after `/2fa/confirm`.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URI
+ *       400:
+ *         description: Two-factor authentication already enabled
+ */
+router.post("/2fa/setup", authenticate, asyncHandler(setupTwoFactor));
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: Verifies the first code from the authenticator app, enables 2FA and returns one-time backup codes.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA enabled, backup codes returned
+ *       400:
+ *         description: Invalid code or no setup in progress
+ */
+router.post(
+  "/2fa/confirm",
+  authenticate,
+  [body("code").isString().notEmpty().withMessage("Code is required.")],
+  validateRequest,
+  asyncHandler(confirmTwoFactor)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/backup-codes:
+ *   post:
+ *     summary: Regenerate backup codes
+ *     description: Replaces all backup codes. Requires a current TOTP or backup code.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: New backup codes
+ *       400:
+ *         description: Invalid code or 2FA not enabled
+ */
+router.post(
+  "/2fa/backup-codes",
+  authenticate,
+  [body("code").isString().notEmpty().withMessage("Code is required.")],
+  validateRequest,
+  asyncHandler(regenerateBackupCodes)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Requires the account password and a current TOTP or backup code. SSO accounts without a password send a `reauthToken` from `/api/auth/oidc/reauth` instead.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: 2FA disabled
+ *       400:
+ *         description: Invalid credentials or code
+ */
+router.post(
+  "/2fa/disable",
+  authenticate,
+  [
+    body("password")
+      .if(body("reauthToken").not().exists())
+      .notEmpty()
+      .withMessage("Password is required."),
+    body("reauthToken").optional().isString(),
+    body("code").isString().notEmpty().withMessage("Code is required."),
+  ],
+  validateRequest,
+  asyncHandler(disableTwoFactor)
+);
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get own profile
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: The signed-in user's profile
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get("/me", authenticate, asyncHandler(getMe));
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   patch:
+ *     summary: Update own profile
+ *     description: Updates name, bio, department, interests and queue preferences. Matched users receive a `profileUpdated` socket event.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               bio:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *               autoRequeue:
+ *                 type: boolean
+ *                 description: Keep the spot in the queue when a waiting entry expires
+ *               interests:
+ *                 oneOf:
+ *                   - type: array
+ *                     items:
+ *                       type: string
+ *                   - type: string
+ *     responses:
+ *       200:
+ *         description: Updated profile
+ *       400:
+ *         description: Invalid input
+ */
+router.patch(
+  "/me",
+  authenticate,
+  [
+    body("name")
+      .optional()
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("Name cannot be empty."),
+    body("bio")
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage("Bio must be at most 500 characters."),
+    body("department")
+      .optional()
+      .isString()
+      .isLength({ max: 100 })
+      .withMessage("Department must be at most 100 characters."),
+    body("autoRequeue")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("autoRequeue must be a boolean."),
+    body("interests")
+      .optional()
+      .custom(
+        (value) =>
+          typeof value === "string" ||
+          (Array.isArray(value) && value.every((i) => typeof i === "string"))
+      )
+      .withMessage("Interests must be a list of strings."),
+  ],
+  validateRequest,
+  asyncHandler(updateMe)
+);
+
+/**
+ * @swagger
+ * /api/auth/me/picture:
+ *   put:
+ *     summary: Replace profile picture
+ *     description: Uploads a new profile picture and deletes the previous one from Cloudinary.
+ *     security:
+ *       - cookieAuth: []
+ *     consumes:
+ *       - multipart/form-data
+ *     parameters:
+ *       - in: formData
+ *         name: profilePicture
+ *         type: file
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Updated profile
+ *       400:
+ *         description: No picture uploaded
+ */
+router.put(
+  "/me/picture",
+  authenticate,
+  parser.single("profilePicture"),
+  asyncHandler(updateProfilePicture)
+);
+
+/**
+ * @swagger
+ * /api/auth/me/export:
+ *   get:
+ *     summary: Export account data
+ *     description: Downloads a JSON archive with the user's profile, decrypted chat messages, calendar events, notifications, queue history and sessions.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: JSON archive
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get("/me/export", authenticate, asyncHandler(exportAccountData));
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   delete:
+ *     summary: Delete account
+ *     description: Permanently deletes the account and all related data. Other users' match lists are cleaned up. SSO accounts without a password send a `reauthToken` from `/api/auth/oidc/reauth` instead.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *               reauthToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account deleted
+ *       400:
+ *         description: Invalid credentials
+ */
+router.delete(
+  "/me",
+  authenticate,
+  [
+    body("password")
+      .if(body("reauthToken").not().exists())
+      .notEmpty()
+      .withMessage("Password is required."),
+    body("reauthToken").optional().isString(),
+  ],
+  validateRequest,
+  asyncHandler(deleteAccount)
+);
+
+/**
+ * @swagger
+ * /api/auth/change-password:
+ *   post:
+ *     summary: Change password
+ *     description: Requires the current password, or a `reauthToken` from `/api/auth/oidc/reauth` for SSO accounts that have none yet. The new password must satisfy the password policy and must not appear in the breached-password list. All other sessions are signed out.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               reauthToken:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Current password incorrect or new password rejected by the policy
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post(
+  "/change-password",
+  authenticate,
+  [
+    body("currentPassword")
+      .if(body("reauthToken").not().exists())
+      .notEmpty()
+      .withMessage("Current password is required."),
+    body("reauthToken").optional().isString(),
+    body("newPassword").custom(passwordPolicyValidator),
+  ],
+  validateRequest,
+  //@ts-ignore
+  asyncHandler(changePassword)
+);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: Devices the user is signed in on, with user agent, IP and last-seen time. The session making the request is flagged as `current`.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get("/sessions", authenticate, asyncHandler(listSessions));
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   delete:
+ *     summary: Sign out all other sessions
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions signed out
+ */
+router.delete("/sessions", authenticate, asyncHandler(revokeOtherSessions));
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out a session
+ *     description: Revokes the session and force-disconnects the sockets opened with it.
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session signed out
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  "/sessions/:sessionId",
+  authenticate,
+  [param("sessionId").isMongoId().withMessage("Invalid session ID.")],
+  validateRequest,
+  asyncHandler(revokeOneSession)
+);
+
+/**
+ * @swagger
+ * /api/auth/tokens:
+ *   post:
+ *     summary: Create a personal access token
+ *     description: Creates a named, scoped, expiring token for integrations. The token is returned once and stored hashed.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [queue:read, queue:write, calendar:read, calendar:write]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *     responses:
+ *       201:
+ *         description: Token created
+ *       400:
+ *         description: Invalid input
+ */
+router.post(
+  "/tokens",
+  authenticate,
+  [
+    body("name")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Name is required."),
+    body("scopes")
+      .isArray({ min: 1 })
+      .withMessage("At least one scope is required."),
+    body("scopes.*").isIn(TOKEN_SCOPES).withMessage("Invalid scope."),
+    body("expiresInDays")
+      .optional()
+      .isInt({ min: 1, max: 365 })
+      .withMessage("Expiry must be between 1 and 365 days.")
+      .toInt(),
+  ],
+  validateRequest,
+  asyncHandler(createPersonalAccessToken)
+);
+
+/**
+ * @swagger
+ * /api/auth/tokens:
+ *   get:
+ *     summary: List personal access tokens
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Active tokens (without their secret values)
+ */
+router.get("/tokens", authenticate, asyncHandler(listPersonalAccessTokens));
+
+/**
+ * @swagger
+ * /api/auth/tokens/{tokenId}:
+ *   delete:
+ *     summary: Revoke a personal access token
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Token revoked
+ *       404:
+ *         description: Token not found
+ */
+router.delete(
+  "/tokens/:tokenId",
+  authenticate,
+  [param("tokenId").isMongoId().withMessage("Invalid token ID.")],
+  validateRequest,
+  asyncHandler(revokePersonalAccessToken)
+);
+
+/**
+ * @swagger
+ * /api/auth/oidc/login:
+ *   get:
+ *     summary: Start single sign-on
+ *     description: Redirects to the configured OpenID Connect provider (authorization code flow with PKCE).
+ *     responses:
+ *       302:
+ *         description: Redirect to the identity provider
+ *       404:
+ *         description: Single sign-on is not configured
+ */
+//@ts-ignore
+router.get("/oidc/login", asyncHandler(oidcLogin));
+
+/**
+ * @swagger
+ * /api/auth/oidc/reauth:
+ *   post:
+ *     summary: Reauthenticate at the identity provider
+ *     description: For SSO accounts without a password. Returns the provider URL, which forces a fresh sign-in; the callback redirects to the client with a short-lived `reauthToken` in the URL fragment, accepted by account deletion, change-password and disabling 2FA in place of the password.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: URL to send the browser to
+ *       400:
+ *         description: Account is not linked to the identity provider
+ *       404:
+ *         description: Single sign-on is not configured
+ */
+//@ts-ignore
+router.post("/oidc/reauth", authenticate, asyncHandler(oidcReauth));
+
+/**
+ * @swagger
+ * /api/auth/oidc/callback:
+ *   get:
+ *     summary: Single sign-on callback
+ *     description: Redeems the authorization code, provisions or links the user by email and redirects to the client with `token` and `refreshToken` in the URL fragment.
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the client with the session tokens
+ *       400:
+ *         description: Invalid or expired sign-in request
+ *       403:
+ *         description: Reauthentication by a different or stale provider sign-in
+ *       409:
+ *         description: Existing account could not be linked
+ */
+//@ts-ignore
+router.get("/oidc/callback", asyncHandler(oidcCallback));
+
 export default router;
@@ -6,9 +6,16 @@ import {
   updateEvent,
   cancelEvent,
 } from "../controllers/calendarController";
+import {
+  getAvailability,
+  updateAvailability,
+  getSuggestedSlots,
+} from "../controllers/availabilityController";
+import { isValidTimezone, isValidWindow } from "../utils/availability";
 import { asyncHandler } from "../utils/asyncHandler";
 import { body, param, validationResult } from "express-validator";
 import { authenticate } from "../middleware/authenticate";
+import { requireScope } from "../middleware/requireScope";
 
 const router = express.Router();
 
@@ -30,6 +37,7 @@ const validateRequest = (
 router.post(
   "/events",
   authenticate,
+  requireScope("calendar:write"),
   [
     body("start")
       .isISO8601()
@@ -60,12 +68,18 @@ router.post(
 );
 
 // GET /api/calendar/events
-router.get("/events", authenticate, asyncHandler(getEvents));
+router.get(
+  "/events",
+  authenticate,
+  requireScope("calendar:read"),
+  asyncHandler(getEvents)
+);
 
 // PUT /api/calendar/events/:id
 router.put(
   "/events/:id",
   authenticate,
+  requireScope("calendar:write"),
   [
     param("id").isMongoId().withMessage("Invalid event ID."),
     body("start")
@@ -97,9 +111,51 @@ router.put(
 router.delete(
   "/events/:id",
   authenticate,
+  requireScope("calendar:write"),
   [param("id").isMongoId().withMessage("Invalid event ID.")],
   validateRequest, // Use the fixed validation middleware
   asyncHandler(cancelEvent)
 );
 
+// GET /api/calendar/availability
+router.get(
+  "/availability",
+  authenticate,
+  requireScope("calendar:read"),
+  asyncHandler(getAvailability)
+);
+
+// PUT /api/calendar/availability
+// Body: { timezone?: "Europe/Rome", availability: [{ day: 1, start: "09:00", end: "12:00" }] }
+router.put(
+  "/availability",
+  authenticate,
+  requireScope("calendar:write"),
+  [
+    body("timezone")
+      .optional()
+      .custom(isValidTimezone)
+      .withMessage("Timezone must be a valid IANA timezone."),
+    body("availability")
+      .isArray({ max: 50 })
+      .withMessage("Availability must be a list of at most 50 windows."),
+    body("availability.*")
+      .custom(isValidWindow)
+      .withMessage(
+        "Each window needs a day (0-6) and start/end times (HH:mm) with end after start."
+      ),
+  ],
+  validateRequest,
+  asyncHandler(updateAvailability)
+);
+
+// GET /api/calendar/suggested-slots
+// Shared availability with the current match
+router.get(
+  "/suggested-slots",
+  authenticate,
+  requireScope("calendar:read"),
+  asyncHandler(getSuggestedSlots)
+);
+
 export default router;
@@ -1,6 +1,7 @@
 // src/routes/chatRoutes.ts
 import express, { Request, Response, NextFunction } from "express";
 import { authenticate } from "../middleware/authenticate";
+import { requireVerifiedEmail } from "../middleware/requireVerifiedEmail";
 import { asyncHandler } from "../utils/asyncHandler";
 import {
   markChatMessagesAsRead,
@@ -49,7 +50,7 @@ const router = express.Router();
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: User is not in your matches
+ *         description: User is not in your matches or email not verified
  *       404:
  *         description: User not found
  *       500:
@@ -58,6 +59,7 @@ const router = express.Router();
 router.post(
   "/mark-as-read/:receiverId",
   authenticate,
+  requireVerifiedEmail,
   [
     param("receiverId")
       .custom((value) => mongoose.Types.ObjectId.isValid(value))
@@ -104,7 +106,7 @@ router.post(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: User is not in your matches
+ *         description: User is not in your matches or email not verified
  *       404:
  *         description: User not found
  *       500:
@@ -113,6 +115,7 @@ router.post(
 router.post(
   "/send",
   authenticate,
+  requireVerifiedEmail,
   [
     body("receiverId")
       .custom((value) => mongoose.Types.ObjectId.isValid(value))
@@ -0,0 +1,134 @@
+// src/routes/feedbackRoutes.ts
+import express, { Request, Response, NextFunction } from "express";
+import { body, param, validationResult } from "express-validator";
+import { authenticate } from "../middleware/authenticate";
+import { asyncHandler } from "../utils/asyncHandler";
+import {
+  listPendingFeedback,
+  listSubmittedFeedback,
+  submitFeedback,
+} from "../controllers/feedbackController";
+
+const router = express.Router();
+
+const validateRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Feedback
+ *   description: Post-call feedback and ratings
+ */
+
+/**
+ * @swagger
+ * /api/feedback/pending:
+ *   get:
+ *     tags: [Feedback]
+ *     summary: List feedback requests for calls that took place
+ *     description: |
+ *       Requests are created when an appointment is confirmed. Users are also
+ *       prompted with a `feedback_request` notification after the call time.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending feedback requests, most recent call first
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get("/pending", asyncHandler(listPendingFeedback));
+
+/**
+ * @swagger
+ * /api/feedback/submitted:
+ *   get:
+ *     tags: [Feedback]
+ *     summary: List feedback you submitted
+ *     description: Includes your private notes, which nobody else can read.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Submitted feedback, newest first
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get("/submitted", asyncHandler(listSubmittedFeedback));
+
+/**
+ * @swagger
+ * /api/feedback/{feedbackId}:
+ *   post:
+ *     tags: [Feedback]
+ *     summary: Submit feedback for a call
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: feedbackId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rating, wouldMeetAgain]
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               wouldMeetAgain:
+ *                 type: boolean
+ *               notes:
+ *                 type: string
+ *                 description: Private; only visible to you
+ *     responses:
+ *       200:
+ *         description: Feedback recorded
+ *       400:
+ *         description: Invalid input or the call hasn't taken place yet
+ *       404:
+ *         description: Feedback request not found
+ *       409:
+ *         description: Feedback already submitted
+ */
+router.post(
+  "/:feedbackId",
+  [
+    param("feedbackId").isMongoId().withMessage("Invalid feedback ID."),
+    body("rating")
+      .isInt({ min: 1, max: 5 })
+      .withMessage("Rating must be between 1 and 5."),
+    body("wouldMeetAgain")
+      .isBoolean({ strict: true })
+      .withMessage("wouldMeetAgain must be a boolean."),
+    body("notes")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage("Notes must be at most 2000 characters."),
+  ],
+  validateRequest,
+  asyncHandler(submitFeedback)
+);
+
+export default router;
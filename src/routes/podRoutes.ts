@@ -0,0 +1,201 @@
+// src/routes/podRoutes.ts
+import express, { Request, Response, NextFunction } from "express";
+import { body, param, validationResult } from "express-validator";
+import { authenticate } from "../middleware/authenticate";
+import { requireVerifiedEmail } from "../middleware/requireVerifiedEmail";
+import { requireScope } from "../middleware/requireScope";
+import { asyncHandler } from "../utils/asyncHandler";
+import {
+  getCurrentPod,
+  getPodMessages,
+  sendPodMessage,
+  schedulePodCall,
+  leavePod,
+} from "../controllers/podController";
+
+const router = express.Router();
+
+const validateRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const podIdParam = param("podId").isMongoId().withMessage("Invalid pod ID.");
+
+/**
+ * @swagger
+ * tags:
+ *   name: Pods
+ *   description: Group matches (triads and small pods), their chat and group call
+ */
+
+/**
+ * @swagger
+ * /api/pods/current:
+ *   get:
+ *     tags: [Pods]
+ *     summary: Get your active pod
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: The pod with its members and scheduled call
+ *       404:
+ *         description: Not in a pod
+ */
+router.get(
+  "/current",
+  authenticate,
+  requireScope("queue:read"),
+  asyncHandler(getCurrentPod)
+);
+
+/**
+ * @swagger
+ * /api/pods/{podId}/messages:
+ *   get:
+ *     tags: [Pods]
+ *     summary: Get the pod's group chat history
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Decrypted messages, oldest first
+ *       404:
+ *         description: Pod not found
+ *   post:
+ *     tags: [Pods]
+ *     summary: Send a message to the pod's group chat
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Message sent to every member
+ *       403:
+ *         description: Email not verified
+ *       404:
+ *         description: Pod not found
+ */
+router.get(
+  "/:podId/messages",
+  authenticate,
+  requireVerifiedEmail,
+  [podIdParam],
+  validateRequest,
+  asyncHandler(getPodMessages)
+);
+
+router.post(
+  "/:podId/messages",
+  authenticate,
+  requireVerifiedEmail,
+  [
+    podIdParam,
+    body("content").isString().notEmpty().withMessage("Content is required"),
+  ],
+  validateRequest,
+  asyncHandler(sendPodMessage)
+);
+
+/**
+ * @swagger
+ * /api/pods/{podId}/event:
+ *   post:
+ *     tags: [Pods]
+ *     summary: Schedule the pod's group call
+ *     description: |
+ *       Creates one calendar event with every member as an attendee, or moves
+ *       the existing one (confirmations are reset). All members are booked.
+ *       Once every member confirms the event, the pod is completed and the
+ *       members can book again.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               scheduledTime:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Group call scheduled
+ *       404:
+ *         description: Pod not found
+ */
+router.post(
+  "/:podId/event",
+  authenticate,
+  requireScope("calendar:write"),
+  [
+    podIdParam,
+    body("scheduledTime")
+      .isISO8601()
+      .withMessage("Scheduled time must be a valid date.")
+      .custom((value) => new Date(value) > new Date())
+      .withMessage("Scheduled time must be in the future."),
+  ],
+  validateRequest,
+  asyncHandler(schedulePodCall)
+);
+
+/**
+ * @swagger
+ * /api/pods/leave:
+ *   post:
+ *     tags: [Pods]
+ *     summary: Leave your active pod
+ *     description: The pod is closed once fewer than two members remain.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Left the pod
+ *       400:
+ *         description: Not in a pod
+ */
+router.post(
+  "/leave",
+  authenticate,
+  requireScope("queue:write"),
+  [
+    body("reason")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Reason must be at most 500 characters."),
+  ],
+  validateRequest,
+  asyncHandler(leavePod)
+);
+
+export default router;
@@ -1,9 +1,13 @@
 // src/routes/queueRoutes.ts
-import express from "express";
+import express, { Request, Response, NextFunction } from "express";
+import { body, param, validationResult } from "express-validator";
 import { authenticate } from "../middleware/authenticate";
+import { requireVerifiedEmail } from "../middleware/requireVerifiedEmail";
+import { requireScope } from "../middleware/requireScope";
 import { asyncHandler } from "../utils/asyncHandler";
 import {
   bookCall,
+  bookGroupCall,
   resetMatches,
   getMatchHistory,
   getCurrentMatch,
@@ -14,10 +18,34 @@ import {
   confirmDate,
   updateConfirmedDate, // Import the new controller method
   getDateProposalStatus, // New: Get current proposal date status
+  leaveQueue,
+  cancelMatch,
+  proposeDates,
+  acceptDateProposal,
 } from "../controllers/queueController";
+import {
+  listOpenRounds,
+  optInToRound,
+  optOutOfRound,
+} from "../controllers/roundController";
+import { MAX_SLOTS_PER_PROPOSAL } from "../utils/dateProposals";
+import { POD_SETTINGS } from "../matching";
 
 const router = express.Router();
 
+const validateRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
 /**
  * @swagger
  * tags:
@@ -31,7 +59,15 @@ const router = express.Router();
  *   post:
  *     tags: [Queue]
  *     summary: Book a call and find a match
- *     description: Add the authenticated user to the matchmaking queue and find a compatible match.
+ *     description: |
+ *       Add the authenticated user to the matchmaking queue and find a compatible match.
+ *       Waiting users are ranked by the configured matching strategy (`MATCHING_STRATEGY`:
+ *       `interest` (default) scores shared interests, time spent waiting and how often the
+ *       two users were matched before; `fifo` picks the longest-waiting user; `round_robin`
+ *       rotates through departments).
+ *       Past partners are skipped until their rematch cooldown ends (`MATCH_COOLDOWN_DAYS`)
+ *       or until the user has met everyone else (`MATCH_REMATCH_AFTER_EVERYONE`).
+ *       The `interest` strategy also favours candidates with overlapping weekly availability.
  *     security:
  *       - cookieAuth: []
  *     responses:
@@ -48,8 +84,54 @@ const router = express.Router();
  *                   type: string
  *                 matchedUser:
  *                   $ref: '#/components/schemas/User'
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                   description: When the waiting entry expires (only when waiting)
+ *                 strategy:
+ *                   type: string
+ *                   enum: [fifo, interest, round_robin]
+ *                 suggestedSlots:
+ *                   type: array
+ *                   description: Upcoming windows in which both users are available (only when matched)
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       start:
+ *                         type: string
+ *                         format: date-time
+ *                       end:
+ *                         type: string
+ *                         format: date-time
+ *                 score:
+ *                   type: object
+ *                   description: Why the two users were paired (only when matched)
+ *                   properties:
+ *                     total:
+ *                       type: number
+ *                     sharedInterests:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     interestScore:
+ *                       type: number
+ *                     waitScore:
+ *                       type: number
+ *                     waitMinutes:
+ *                       type: number
+ *                     historyPenalty:
+ *                       type: number
+ *                     pastMatches:
+ *                       type: number
+ *                     availabilityScore:
+ *                       type: number
+ *                     overlapMinutes:
+ *                       type: number
+ *                       nullable: true
  *       400:
  *         description: User already in queue or invalid request
+ *       403:
+ *         description: Email address not verified
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       404:
@@ -57,7 +139,130 @@ const router = express.Router();
  *       500:
  *         description: Internal server error
  */
-router.post("/book", authenticate, asyncHandler(bookCall));
+router.post(
+  "/book",
+  authenticate,
+  requireScope("queue:write"),
+  requireVerifiedEmail,
+  asyncHandler(bookCall)
+);
+
+/**
+ * @swagger
+ * /api/queue/book-group:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Book a group call (triad or small pod)
+ *     description: |
+ *       Forms a pod with people waiting in group mode for the same pod size, or adds the
+ *       user to the group waiting queue. Members get a shared group chat (see /api/pods)
+ *       and receive a `podFormed` socket event.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               size:
+ *                 type: integer
+ *                 minimum: 3
+ *                 maximum: 4
+ *                 description: Pod size (defaults to the POD_SIZE setting)
+ *     responses:
+ *       200:
+ *         description: Pod formed or added to the group queue
+ *       400:
+ *         description: User already has an active booking
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post(
+  "/book-group",
+  authenticate,
+  requireScope("queue:write"),
+  requireVerifiedEmail,
+  [
+    body("size")
+      .optional()
+      .isInt({ min: POD_SETTINGS.minSize, max: POD_SETTINGS.maxSize })
+      .withMessage(
+        `Pod size must be between ${POD_SETTINGS.minSize} and ${POD_SETTINGS.maxSize}.`
+      ),
+  ],
+  validateRequest,
+  asyncHandler(bookGroupCall)
+);
+
+/**
+ * @swagger
+ * /api/queue/leave:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Leave the waiting queue
+ *     description: Removes the user's waiting entry. Also available as the `leaveQueue` socket event.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Left the queue
+ *       400:
+ *         description: User is not waiting in the queue
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post(
+  "/leave",
+  authenticate,
+  requireScope("queue:write"),
+  asyncHandler(leaveQueue)
+);
+
+/**
+ * @swagger
+ * /api/queue/cancel-match:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Cancel the current match
+ *     description: |
+ *       Cancels a matched or booked pairing and removes both users' queue entries.
+ *       The partner receives a notification plus `matchCancelled` and `queueUpdated`
+ *       socket events. Also available as the `cancelMatch` socket event.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Optional message shown to the partner
+ *     responses:
+ *       200:
+ *         description: Match cancelled
+ *       400:
+ *         description: No active match to cancel
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post(
+  "/cancel-match",
+  authenticate,
+  requireScope("queue:write"),
+  [
+    body("reason")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Reason must be at most 500 characters."),
+  ],
+  validateRequest,
+  asyncHandler(cancelMatch)
+);
 
 /**
  * @swagger
@@ -83,7 +288,12 @@ router.post("/book", authenticate, asyncHandler(bookCall));
  *       500:
  *         description: Internal server error
  */
-router.post("/reset", authenticate, asyncHandler(resetMatches));
+router.post(
+  "/reset",
+  authenticate,
+  requireScope("queue:write"),
+  asyncHandler(resetMatches)
+);
 
 /**
  * @swagger
@@ -110,7 +320,12 @@ router.post("/reset", authenticate, asyncHandler(resetMatches));
  *       500:
  *         description: Internal server error
  */
-router.get("/history", authenticate, asyncHandler(getMatchHistory));
+router.get(
+  "/history",
+  authenticate,
+  requireScope("queue:read"),
+  asyncHandler(getMatchHistory)
+);
 
 /**
  * @swagger
@@ -135,7 +350,12 @@ router.get("/history", authenticate, asyncHandler(getMatchHistory));
  *       500:
  *         description: Internal server error
  */
-router.get("/current", authenticate, asyncHandler(getCurrentMatch));
+router.get(
+  "/current",
+  authenticate,
+  requireScope("queue:read"),
+  asyncHandler(getCurrentMatch)
+);
 
 /**
  * @swagger
@@ -162,7 +382,12 @@ router.get("/current", authenticate, asyncHandler(getCurrentMatch));
  *       500:
  *         description: Internal server error
  */
-router.get("/match-counts", authenticate, asyncHandler(getMatchCounts));
+router.get(
+  "/match-counts",
+  authenticate,
+  requireScope("queue:read"),
+  asyncHandler(getMatchCounts)
+);
 
 /**
  * @swagger
@@ -192,7 +417,12 @@ router.get("/match-counts", authenticate, asyncHandler(getMatchCounts));
  *       500:
  *         description: Internal server error
  */
-router.post("/book-appointment", authenticate, asyncHandler(bookAppointment));
+router.post(
+  "/book-appointment",
+  authenticate,
+  requireScope("queue:write"),
+  asyncHandler(bookAppointment)
+);
 
 /**
  * @swagger
@@ -222,7 +452,12 @@ router.post("/book-appointment", authenticate, asyncHandler(bookAppointment));
  *       500:
  *         description: Internal server error
  */
-router.post("/skip-appointment", authenticate, asyncHandler(skipAppointment));
+router.post(
+  "/skip-appointment",
+  authenticate,
+  requireScope("queue:write"),
+  asyncHandler(skipAppointment)
+);
 
 /**
  * @swagger
@@ -255,6 +490,7 @@ router.post("/skip-appointment", authenticate, asyncHandler(skipAppointment));
 router.post(
   "/confirm-appointment",
   authenticate,
+  requireScope("queue:write"),
   asyncHandler(confirmAppointment)
 );
 
@@ -264,7 +500,10 @@ router.post(
  *   post:
  *     tags: [Queue]
  *     summary: Confirm a proposed date
- *     description: Let both matched users confirm a proposed date. When both users confirm the same date, the queue state resets to idle.
+ *     description: |
+ *       Single-date shorthand for the date proposal thread. If the matched user's pending
+ *       proposal offers this date it is accepted and the appointment is booked; otherwise
+ *       the date is proposed to them.
  *     security:
  *       - cookieAuth: []
  *     requestBody:
@@ -298,7 +537,12 @@ router.post(
  *       500:
  *         description: Internal server error.
  */
-router.post("/confirm-date", authenticate, asyncHandler(confirmDate));
+router.post(
+  "/confirm-date",
+  authenticate,
+  requireScope("queue:write"),
+  asyncHandler(confirmDate)
+);
 
 /**
  * @swagger
@@ -306,7 +550,7 @@ router.post("/confirm-date", authenticate, asyncHandler(confirmDate));
  *   patch:
  *     tags: [Queue]
  *     summary: Update the provisional confirmed date
- *     description: Allows a matched user to update their confirmed date if they change their mind. The updated provisional date is returned, along with the provisional date from the other user if available. When both users confirm the same date, the state resets to idle.
+ *     description: Same as `/api/queue/confirm-date`; the new date replaces the user's pending proposal.
  *     security:
  *       - cookieAuth: []
  *     requestBody:
@@ -333,12 +577,9 @@ router.post("/confirm-date", authenticate, asyncHandler(confirmDate));
  *                   type: string
  *                 message:
  *                   type: string
- *                 confirmedDate:
- *                   type: string
- *                   format: date-time
- *                 otherConfirmedDate:
- *                   type: string
- *                   format: date-time
+ *                 dateProposals:
+ *                   type: object
+ *                   description: The proposal thread (status, appointment and every proposal with its status)
  *       400:
  *         description: Invalid request or no active match.
  *       401:
@@ -346,7 +587,12 @@ router.post("/confirm-date", authenticate, asyncHandler(confirmDate));
  *       500:
  *         description: Internal server error.
  */
-router.patch("/update-date", authenticate, asyncHandler(updateConfirmedDate));
+router.patch(
+  "/update-date",
+  authenticate,
+  requireScope("queue:write"),
+  asyncHandler(updateConfirmedDate)
+);
 
 /**
  * @swagger
@@ -354,7 +600,10 @@ router.patch("/update-date", authenticate, asyncHandler(updateConfirmedDate));
  *   get:
  *     tags: [Queue]
  *     summary: Get current proposal date status
- *     description: Retrieve the current status of the proposed appointment date, including your own proposed date and the matched user's provisional date (if available).
+ *     description: |
+ *       Retrieve the date proposal thread of the current match, with every proposal and how
+ *       it was answered. `myProposedDate`/`theirProposedDate` hold the first slot of each
+ *       side's pending proposal. Changes are pushed to both users as `queueUpdated` events.
  *     security:
  *       - cookieAuth: []
  *     responses:
@@ -375,13 +624,202 @@ router.patch("/update-date", authenticate, asyncHandler(updateConfirmedDate));
  *                 theirProposedDate:
  *                   type: string
  *                   format: date-time
+ *                 appointment:
+ *                   type: string
+ *                   format: date-time
  *                 matchedUserId:
  *                   type: string
+ *                 dateProposals:
+ *                   type: object
+ *                   description: The proposal thread (status, appointment and every proposal with its status)
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       500:
  *         description: Internal server error.
  */
-router.get("/date-proposal", authenticate, asyncHandler(getDateProposalStatus));
+router.get(
+  "/date-proposal",
+  authenticate,
+  requireScope("queue:read"),
+  asyncHandler(getDateProposalStatus)
+);
+
+/**
+ * @swagger
+ * /api/queue/date-proposals:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Propose appointment slots
+ *     description: |
+ *       Offers one or more slots to the matched user. If they have a pending proposal,
+ *       this is a counter-proposal and theirs is marked `countered`. Your own previous
+ *       pending proposal is marked `withdrawn`.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slots:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: date-time
+ *     responses:
+ *       200:
+ *         description: Proposal added to the thread
+ *       400:
+ *         description: Invalid slots, no active match or appointment already booked
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post(
+  "/date-proposals",
+  authenticate,
+  requireScope("queue:write"),
+  [
+    body("slots")
+      .isArray({ min: 1, max: MAX_SLOTS_PER_PROPOSAL })
+      .withMessage(`Propose between 1 and ${MAX_SLOTS_PER_PROPOSAL} slots.`),
+    body("slots.*")
+      .isISO8601()
+      .withMessage("Each slot must be a valid date.")
+      .custom((value) => new Date(value) > new Date())
+      .withMessage("Slots must be in the future."),
+  ],
+  validateRequest,
+  asyncHandler(proposeDates)
+);
+
+/**
+ * @swagger
+ * /api/queue/date-proposals/{proposalId}/accept:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Accept a slot of the matched user's proposal
+ *     description: Books the appointment for both users at the chosen slot.
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: proposalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slot:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Appointment booked
+ *       400:
+ *         description: Slot not offered or proposal no longer open
+ *       404:
+ *         description: Proposal not found
+ */
+router.post(
+  "/date-proposals/:proposalId/accept",
+  authenticate,
+  requireScope("queue:write"),
+  [
+    param("proposalId").isMongoId().withMessage("Invalid proposal ID."),
+    body("slot")
+      .isISO8601()
+      .withMessage("Slot must be a valid date.")
+      .custom((value) => new Date(value) > new Date())
+      .withMessage("Slot must be in the future."),
+  ],
+  validateRequest,
+  asyncHandler(acceptDateProposal)
+);
+
+/**
+ * @swagger
+ * /api/queue/rounds:
+ *   get:
+ *     tags: [Queue]
+ *     summary: List matching rounds open for opt-in
+ *     description: |
+ *       Everyone who opts in to a round before its cutoff is paired in a single
+ *       pass when the round is published.
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Open rounds with participant count and your opt-in status
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get(
+  "/rounds",
+  authenticate,
+  requireScope("queue:read"),
+  asyncHandler(listOpenRounds)
+);
+
+/**
+ * @swagger
+ * /api/queue/rounds/{roundId}/opt-in:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Opt in to a matching round
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Opted in
+ *       404:
+ *         description: Round not found or past its cutoff
+ *   delete:
+ *     tags: [Queue]
+ *     summary: Opt out of a matching round
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Opted out
+ *       404:
+ *         description: Round not found or past its cutoff
+ */
+router.post(
+  "/rounds/:roundId/opt-in",
+  authenticate,
+  requireScope("queue:write"),
+  requireVerifiedEmail,
+  [param("roundId").isMongoId().withMessage("Invalid round ID.")],
+  validateRequest,
+  asyncHandler(optInToRound)
+);
+
+router.delete(
+  "/rounds/:roundId/opt-in",
+  authenticate,
+  requireScope("queue:write"),
+  [param("roundId").isMongoId().withMessage("Invalid round ID.")],
+  validateRequest,
+  asyncHandler(optOutOfRound)
+);
 
 export default router;
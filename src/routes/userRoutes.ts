@@ -0,0 +1,166 @@
+// src/routes/userRoutes.ts
+import express, { Request, Response, NextFunction } from "express";
+import { body, param, validationResult } from "express-validator";
+import { authenticate } from "../middleware/authenticate";
+import { asyncHandler } from "../utils/asyncHandler";
+import { REPORT_REASONS } from "../models/UserReport";
+import {
+  blockUser,
+  unblockUser,
+  listBlockedUsers,
+  reportUser,
+} from "../controllers/safetyController";
+
+const router = express.Router();
+
+const validateRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const userIdParam = param("userId")
+  .isMongoId()
+  .withMessage("Invalid user ID format.");
+
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Users
+ *   description: Blocking and reporting other users
+ */
+
+/**
+ * @swagger
+ * /api/users/blocked:
+ *   get:
+ *     tags: [Users]
+ *     summary: List blocked users
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Users blocked by the signed-in user
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get("/blocked", asyncHandler(listBlockedUsers));
+
+/**
+ * @swagger
+ * /api/users/{userId}/block:
+ *   post:
+ *     tags: [Users]
+ *     summary: Block a user
+ *     description: |
+ *       Blocked pairs are never matched and cannot message each other, and the
+ *       blocked user is hidden from match history. An active match between the
+ *       two is cancelled.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [harassment, inappropriate_behavior, spam, no_show, impersonation, safety_concern, other]
+ *     responses:
+ *       200:
+ *         description: User blocked
+ *       400:
+ *         description: Invalid input or attempting to block yourself
+ *       404:
+ *         description: User not found
+ *   delete:
+ *     tags: [Users]
+ *     summary: Unblock a user
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: User unblocked
+ *       404:
+ *         description: User is not blocked
+ */
+router.post(
+  "/:userId/block",
+  [
+    userIdParam,
+    body("reason")
+      .optional()
+      .isIn(REPORT_REASONS)
+      .withMessage("Invalid block reason."),
+  ],
+  validateRequest,
+  asyncHandler(blockUser)
+);
+
+router.delete(
+  "/:userId/block",
+  [userIdParam],
+  validateRequest,
+  asyncHandler(unblockUser)
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/report:
+ *   post:
+ *     tags: [Users]
+ *     summary: Report a user
+ *     description: Files a report for moderators. Set `block` to block the user at the same time.
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [harassment, inappropriate_behavior, spam, no_show, impersonation, safety_concern, other]
+ *               details:
+ *                 type: string
+ *               block:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Report submitted
+ *       400:
+ *         description: Invalid input or attempting to report yourself
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  "/:userId/report",
+  [
+    userIdParam,
+    body("reason").isIn(REPORT_REASONS).withMessage("Invalid report reason."),
+    body("details")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage("Details must be at most 2000 characters."),
+    body("block").optional().isBoolean({ strict: true }),
+  ],
+  validateRequest,
+  asyncHandler(reportUser)
+);
+
+export default router;
@@ -2,6 +2,9 @@ import dotenv from "dotenv";
 
 import { initializeWebSocket } from "./ws";
 import { server } from "./app";
+import { startQueueSweeper } from "./utils/queueExpiry";
+import { startRoundScheduler } from "./utils/roundScheduler";
+import { startFeedbackPrompter } from "./utils/feedback";
 
 dotenv.config();
 
@@ -12,6 +15,15 @@ const PORT = process.env.PORT || 5000;
 // Initialize WebSocket
 initializeWebSocket(server);
 
+// Expire stale waiting queue entries in the background
+startQueueSweeper();
+
+// Publish matching rounds once their cutoff has passed
+startRoundScheduler();
+
+// Ask participants for feedback once their call has taken place
+startFeedbackPrompter();
+
 server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
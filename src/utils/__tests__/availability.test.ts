@@ -0,0 +1,153 @@
+// src/utils/__tests__/availability.test.ts
+import {
+  AVAILABILITY_SETTINGS,
+  createOverlapCalculator,
+  expandAvailability,
+  getOverlapMinutes,
+} from "../availability";
+
+const iso = (slots: { start: Date; end: Date }[]) =>
+  slots.map((slot) => [slot.start.toISOString(), slot.end.toISOString()]);
+
+describe("availability", () => {
+  beforeAll(() => {
+    // Pin the settings so a local .env can't change the expected slots
+    Object.assign(AVAILABILITY_SETTINGS, {
+      horizonDays: 14,
+      minSlotMinutes: 15,
+    });
+  });
+
+  it("clips windows to the requested range", () => {
+    // 2026-01-05 is a Monday
+    const slots = expandAvailability(
+      {
+        timezone: "UTC",
+        availability: [{ day: 1, start: "09:00", end: "17:00" }],
+      },
+      new Date("2026-01-05T12:00:00Z"),
+      7
+    );
+
+    expect(iso(slots)).toEqual([
+      ["2026-01-05T12:00:00.000Z", "2026-01-05T17:00:00.000Z"],
+      ["2026-01-12T09:00:00.000Z", "2026-01-12T12:00:00.000Z"],
+    ]);
+  });
+
+  it("reads windows in the owner's timezone", () => {
+    const slots = expandAvailability(
+      {
+        timezone: "America/New_York",
+        availability: [{ day: 1, start: "09:00", end: "10:00" }],
+      },
+      new Date("2026-01-04T00:00:00Z"),
+      7
+    );
+
+    expect(iso(slots)).toEqual([
+      ["2026-01-05T14:00:00.000Z", "2026-01-05T15:00:00.000Z"],
+    ]);
+  });
+
+  it("moves windows to the previous UTC day for zones ahead of UTC", () => {
+    const slots = expandAvailability(
+      {
+        timezone: "Asia/Tokyo",
+        availability: [{ day: 1, start: "08:00", end: "09:00" }],
+      },
+      new Date("2026-01-04T00:00:00Z"),
+      7
+    );
+
+    expect(iso(slots)).toEqual([
+      ["2026-01-04T23:00:00.000Z", "2026-01-05T00:00:00.000Z"],
+    ]);
+  });
+
+  it.each([
+    [
+      "Europe/Berlin",
+      "2026-03-16T00:00:00Z",
+      // Clocks go forward on Sunday 2026-03-29
+      [
+        ["2026-03-22T09:00:00.000Z", "2026-03-22T10:00:00.000Z"],
+        ["2026-03-29T08:00:00.000Z", "2026-03-29T09:00:00.000Z"],
+      ],
+    ],
+    [
+      "America/New_York",
+      "2026-02-23T00:00:00Z",
+      // Clocks go forward on Sunday 2026-03-08
+      [
+        ["2026-03-01T15:00:00.000Z", "2026-03-01T16:00:00.000Z"],
+        ["2026-03-08T14:00:00.000Z", "2026-03-08T15:00:00.000Z"],
+      ],
+    ],
+    [
+      "Europe/Berlin",
+      "2026-10-12T00:00:00Z",
+      // Clocks go back on Sunday 2026-10-25
+      [
+        ["2026-10-18T08:00:00.000Z", "2026-10-18T09:00:00.000Z"],
+        ["2026-10-25T09:00:00.000Z", "2026-10-25T10:00:00.000Z"],
+      ],
+    ],
+  ])(
+    "keeps the wall-clock time across a DST change in %s from %s",
+    (timezone, from, expected) => {
+      const slots = expandAvailability(
+        { timezone, availability: [{ day: 0, start: "10:00", end: "11:00" }] },
+        new Date(from),
+        14
+      );
+
+      expect(iso(slots)).toEqual(expected);
+    }
+  );
+
+  it("falls back to UTC and skips invalid windows", () => {
+    const slots = expandAvailability(
+      {
+        timezone: "Not/AZone",
+        availability: [
+          { day: 1, start: "09:00", end: "10:00" },
+          { day: 1, start: "12:00", end: "11:00" },
+          { day: 7, start: "09:00", end: "10:00" },
+        ],
+      },
+      new Date("2026-01-04T00:00:00Z"),
+      7
+    );
+
+    expect(iso(slots)).toEqual([
+      ["2026-01-05T09:00:00.000Z", "2026-01-05T10:00:00.000Z"],
+    ]);
+  });
+
+  it("counts shared minutes across timezones", () => {
+    const from = new Date("2026-01-04T00:00:00Z");
+    // 14:00-17:00 UTC and 15:00-17:00 UTC on Mondays in January
+    const newYork = {
+      timezone: "America/New_York",
+      availability: [{ day: 1, start: "09:00", end: "12:00" }],
+    };
+    const berlin = {
+      timezone: "Europe/Berlin",
+      availability: [{ day: 1, start: "16:00", end: "18:00" }],
+    };
+    // Overlaps New York by 10 minutes, shorter than a call
+    const brief = {
+      timezone: "UTC",
+      availability: [{ day: 1, start: "13:00", end: "14:10" }],
+    };
+
+    expect(getOverlapMinutes(newYork, berlin, from)).toBe(2 * 120);
+    expect(getOverlapMinutes(newYork, brief, from)).toBe(0);
+
+    const getCachedOverlap = createOverlapCalculator(from);
+    expect(getCachedOverlap(newYork, berlin)).toBe(2 * 120);
+    expect(getCachedOverlap(berlin, brief)).toBe(0);
+    expect(getCachedOverlap(newYork, brief)).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+// src/utils/__tests__/passwordPolicy.test.ts
+import fs from "fs";
+import path from "path";
+import { checkPasswordPolicy, isBreachedPassword } from "../passwordPolicy";
+
+const BREACH_PROBLEM =
+  "This password has appeared in a data breach. Please choose another.";
+
+const listedPasswords = fs
+  .readFileSync(
+    path.join(__dirname, "../../data/breached-passwords.txt"),
+    "utf8"
+  )
+  .split(/\r?\n/)
+  .map((line) => line.trim())
+  .filter((line) => line && !line.startsWith("#"));
+
+describe("password policy", () => {
+  it("rejects a listed password that meets every other rule", () => {
+    expect(checkPasswordPolicy("Password123!")).toEqual([BREACH_PROBLEM]);
+    expect(checkPasswordPolicy("Summer2025")).toEqual([BREACH_PROBLEM]);
+  });
+
+  it("only lists passwords the other rules would let through", () => {
+    for (const password of listedPasswords) {
+      expect([password, checkPasswordPolicy(password)]).toEqual([
+        password,
+        [BREACH_PROBLEM],
+      ]);
+    }
+  });
+
+  it("accepts a password that is not listed", () => {
+    expect(isBreachedPassword("correct horse battery 9")).toBe(false);
+    expect(checkPasswordPolicy("correct horse battery 9")).toEqual([]);
+  });
+});
@@ -1,12 +1,34 @@
-import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import mongoose from "mongoose";
 import { IUser } from "../models/User";
+import Session, { ISession } from "../models/Session";
 import dotenv from "dotenv";
 import { compare, hash } from "bcryptjs";
+import { signToken, verifyToken } from "./tokenService";
+import { disconnectSessionSockets } from "../ws";
 
 dotenv.config();
 
 const SALT_ROUNDS = 10;
-const JWT_SECRET = process.env.JWT_SECRET || "default_secret";
+
+export const ACCESS_TOKEN_EXPIRATION = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_EXPIRATION = 7 * 24 * 60 * 60; // 7 days
+export const EMAIL_VERIFICATION_EXPIRATION = 24 * 60 * 60; // 1 day
+export const TWO_FACTOR_CHALLENGE_EXPIRATION = 5 * 60; // 5 minutes
+export const REAUTHENTICATION_EXPIRATION = 5 * 60; // 5 minutes
+const SESSION_TOUCH_INTERVAL = 60; // Write lastSeenAt at most once a minute
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  sid: string;
+  exp: number;
+}
 
 export const hashPassword = async (password: string): Promise<string> => {
   return await hash(password, SALT_ROUNDS);
@@ -19,7 +41,251 @@ export const comparePasswords = async (
   return await compare(password, hash);
 };
 
-export const generateToken = (user: IUser): string => {
+/**
+ * Hashes an opaque token (refresh token secret, etc.) for storage.
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Issues a short-lived access token bound to a server-side session.
+ */
+export const generateToken = (user: IUser, sessionId: string): string => {
+  const payload = { id: user.id, email: user.email, sid: sessionId };
+  return signToken("access", payload, ACCESS_TOKEN_EXPIRATION);
+};
+
+/**
+ * Refresh tokens are opaque `<sessionId>.<secret>` strings; only the hash of
+ * the secret is stored on the session.
+ */
+const buildRefreshToken = (session: ISession, secret: string): string =>
+  `${session.id}.${secret}`;
+
+const newRefreshSecret = (): string => crypto.randomBytes(48).toString("hex");
+
+/**
+ * Opens a new session for the user and returns the first token pair.
+ */
+export const createSession = async (user: IUser, client: ClientInfo = {}) => {
+  const secret = newRefreshSecret();
+  const session = await Session.create({
+    user: user.id,
+    tokenHash: hashToken(secret),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRATION * 1000),
+    userAgent: client.userAgent,
+    ip: client.ip,
+  });
+
+  return {
+    session,
+    token: generateToken(user, session.id),
+    refreshToken: buildRefreshToken(session, secret),
+  };
+};
+
+/**
+ * Records activity on a session (last seen time, IP, user agent).
+ * Writes are skipped if the session was touched less than a minute ago.
+ */
+export const touchSession = async (sessionId: string, client: ClientInfo) => {
+  await Session.updateOne(
+    {
+      _id: sessionId,
+      lastSeenAt: { $lt: new Date(Date.now() - SESSION_TOUCH_INTERVAL * 1000) },
+    },
+    {
+      lastSeenAt: new Date(),
+      ...(client.ip && { ip: client.ip }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+    }
+  );
+};
+
+/**
+ * Revokes a single session (one refresh-token family) and disconnects the
+ * sockets opened with it.
+ */
+export const revokeSession = async (sessionId: string, reason: string) => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  disconnectSessionSockets([sessionId]);
+};
+
+/**
+ * Revokes every active session of a user, invalidating all their tokens.
+ * Pass `exceptSessionId` to keep the caller's own session alive.
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+) => {
+  const filter = {
+    user: userId,
+    revokedAt: null,
+    ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+  };
+  const sessions = await Session.find(filter).select("_id").lean();
+  await Session.updateMany(filter, {
+    revokedAt: new Date(),
+    revokedReason: reason,
+  });
+  disconnectSessionSockets(sessions.map((session) => session._id.toString()));
+};
+
+/**
+ * Exchanges a refresh token for a new token pair.
+ * - The presented token is invalidated (rotation).
+ * - Presenting an already-rotated token revokes the whole session.
+ */
+export const rotateRefreshToken = async (refreshToken: string) => {
+  const [sessionId, secret] = (refreshToken || "").split(".");
+  if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+    throw { status: 401, message: "Invalid refresh token." };
+  }
+
+  const session = await Session.findById(sessionId).populate<{
+    user: IUser;
+  }>("user");
+  if (!session || !session.user) {
+    throw { status: 401, message: "Invalid refresh token." };
+  }
+  if (session.revokedAt) {
+    throw { status: 401, message: "Session has been revoked." };
+  }
+  if (session.expiresAt.getTime() <= Date.now()) {
+    throw { status: 401, message: "Refresh token expired." };
+  }
+
+  const nextSecret = newRefreshSecret();
+  // Compare-and-swap on the current hash so two concurrent refreshes with the
+  // same token cannot both succeed.
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session.id, tokenHash: hashToken(secret), revokedAt: null },
+    { tokenHash: hashToken(nextSecret), lastUsedAt: new Date() },
+    { new: true }
+  );
+
+  if (!rotated) {
+    await revokeSession(session.id, "token_reuse");
+    throw {
+      status: 401,
+      message: "Refresh token reuse detected. Session revoked.",
+    };
+  }
+
+  const user = session.user;
+  return {
+    user,
+    token: generateToken(user, rotated.id),
+    refreshToken: buildRefreshToken(rotated, nextSecret),
+  };
+};
+
+/**
+ * Verifies an access token and makes sure its session is still active.
+ * Throws if the token is invalid, expired or its session was revoked.
+ */
+export const verifyAccessToken = async (
+  token: string
+): Promise<AccessTokenPayload> => {
+  const decoded = verifyToken<AccessTokenPayload>("access", token);
+
+  if (!decoded.sid) {
+    throw new Error("Token is not bound to a session");
+  }
+
+  const session = await Session.findById(decoded.sid).select(
+    "user revokedAt expiresAt"
+  );
+  if (
+    !session ||
+    session.revokedAt ||
+    session.expiresAt.getTime() <= Date.now() ||
+    session.user.toString() !== decoded.id
+  ) {
+    throw new Error("Session is no longer active");
+  }
+
+  return decoded;
+};
+
+/**
+ * Signs an email verification token. The email is part of the payload so a
+ * token stops working if the address changes.
+ */
+export const generateEmailVerificationToken = (user: IUser): string => {
   const payload = { id: user.id, email: user.email };
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+  return signToken(
+    "email_verification",
+    payload,
+    EMAIL_VERIFICATION_EXPIRATION
+  );
+};
+
+export const verifyEmailVerificationToken = (
+  token: string
+): { id: string; email: string } => {
+  return verifyToken<{ id: string; email: string }>(
+    "email_verification",
+    token
+  );
+};
+
+/**
+ * Signs the short-lived challenge token returned by the first login step
+ * when the account has two-factor authentication enabled.
+ */
+export const generateTwoFactorChallengeToken = (user: IUser): string => {
+  return signToken(
+    "2fa_challenge",
+    { id: user.id },
+    TWO_FACTOR_CHALLENGE_EXPIRATION
+  );
+};
+
+export const verifyTwoFactorChallengeToken = (
+  token: string
+): { id: string } => {
+  return verifyToken<{ id: string }>("2fa_challenge", token);
+};
+
+/**
+ * Signs the short-lived proof that an SSO user just signed in again at the
+ * identity provider. Stands in for the password on sensitive actions.
+ */
+export const generateReauthenticationToken = (user: IUser): string => {
+  return signToken(
+    "reauthentication",
+    { id: user.id },
+    REAUTHENTICATION_EXPIRATION
+  );
+};
+
+/**
+ * Confirms the user's identity before a sensitive action: a fresh
+ * reauthentication token from the identity provider, or the password for
+ * accounts that have one.
+ */
+export const confirmIdentity = async (
+  user: IUser,
+  credentials: { password?: string; reauthToken?: string }
+): Promise<boolean> => {
+  if (credentials.reauthToken) {
+    try {
+      const { id } = verifyToken<{ id: string }>(
+        "reauthentication",
+        credentials.reauthToken
+      );
+      return id === user.id;
+    } catch {
+      return false;
+    }
+  }
+  if (!user.hasPassword) return false;
+  return comparePasswords(credentials.password || "", user.password);
 };
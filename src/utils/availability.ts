@@ -0,0 +1,268 @@
+// src/utils/availability.ts
+// Recurring weekly availability, stored as wall-clock windows in the user's
+// own timezone and expanded to concrete UTC intervals when compared.
+import { envNumber } from "./config";
+
+export interface AvailabilityWindow {
+  day: number; // 0 = Sunday ... 6 = Saturday, in the user's timezone
+  start: string; // "HH:mm"
+  end: string; // "HH:mm", after `start`
+}
+
+export interface AvailabilityOwner {
+  timezone?: string;
+  availability?: AvailabilityWindow[];
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export const AVAILABILITY_SETTINGS = {
+  horizonDays: envNumber("AVAILABILITY_HORIZON_DAYS", 14),
+  minSlotMinutes: envNumber("AVAILABILITY_MIN_SLOT_MINUTES", 15),
+  maxSuggestedSlots: envNumber("AVAILABILITY_MAX_SUGGESTED_SLOTS", 10),
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidTimezone = (timezone: unknown): boolean => {
+  if (typeof timezone !== "string" || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinutes = (time: string): number => {
+  const [, hours, minutes] = TIME_PATTERN.exec(time);
+  return Number(hours) * 60 + Number(minutes);
+};
+
+export const isValidWindow = (window: any): window is AvailabilityWindow =>
+  Number.isInteger(window?.day) &&
+  window.day >= 0 &&
+  window.day <= 6 &&
+  TIME_PATTERN.test(window.start) &&
+  TIME_PATTERN.test(window.end) &&
+  toMinutes(window.end) > toMinutes(window.start);
+
+// Building a formatter is far slower than using one, so keep one per zone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedFormatter = (timezone: string) => {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock fields of `date` in `timezone`.
+ */
+function getZonedParts(date: Date, timezone: string) {
+  const parts = getZonedFormatter(timezone).formatToParts(date);
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value("year"),
+    month: value("month") - 1,
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+}
+
+// Offset of `timezone` from UTC at `instant`, in milliseconds
+function getOffset(instant: number, timezone: string): number {
+  const p = getZonedParts(new Date(instant), timezone);
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in `timezone` to a UTC instant. `minutes` may
+ * exceed a day; Date.UTC normalizes it. Around DST changes the offset is
+ * re-checked once.
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timezone: string
+): number {
+  const wallClock = Date.UTC(year, month, day, 0, minutes);
+  const offset = getOffset(wallClock, timezone);
+  const adjusted = getOffset(wallClock - offset, timezone);
+  return wallClock - adjusted;
+}
+
+/**
+ * Expands weekly windows into UTC intervals between `from` and `from + days`.
+ */
+export const expandAvailability = (
+  owner: AvailabilityOwner,
+  from: Date = new Date(),
+  days: number = AVAILABILITY_SETTINGS.horizonDays
+): TimeSlot[] => {
+  const windows = (owner.availability || []).filter(isValidWindow);
+  const timezone = isValidTimezone(owner.timezone) ? owner.timezone : "UTC";
+  if (!windows.length) return [];
+
+  const rangeStart = from.getTime();
+  const rangeEnd = rangeStart + days * DAY_MS;
+  const today = getZonedParts(from, timezone);
+  const intervals: TimeSlot[] = [];
+
+  // One extra day on each side covers windows shifted by the UTC offset
+  for (let offset = -1; offset <= days + 1; offset++) {
+    const date = new Date(
+      Date.UTC(today.year, today.month, today.day + offset)
+    );
+    const weekday = date.getUTCDay();
+
+    for (const window of windows) {
+      if (window.day !== weekday) continue;
+      const args = [
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+      ] as const;
+      const start = Math.max(
+        zonedTimeToUtc(...args, toMinutes(window.start), timezone),
+        rangeStart
+      );
+      const end = Math.min(
+        zonedTimeToUtc(...args, toMinutes(window.end), timezone),
+        rangeEnd
+      );
+      if (end > start) {
+        intervals.push({ start: new Date(start), end: new Date(end) });
+      }
+    }
+  }
+
+  return mergeSlots(intervals);
+};
+
+// Sorts intervals and merges the ones that touch or overlap
+function mergeSlots(slots: TimeSlot[]): TimeSlot[] {
+  const sorted = [...slots].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+  const merged: TimeSlot[] = [];
+  for (const slot of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && slot.start.getTime() <= last.end.getTime()) {
+      if (slot.end > last.end) last.end = slot.end;
+    } else {
+      merged.push({ start: slot.start, end: slot.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Time windows shared by two expanded schedules, long enough for a call.
+ */
+export const intersectSlots = (
+  mine: TimeSlot[],
+  theirs: TimeSlot[]
+): TimeSlot[] => {
+  const minLength = AVAILABILITY_SETTINGS.minSlotMinutes * MINUTE_MS;
+  const overlaps: TimeSlot[] = [];
+
+  // Both lists are sorted and non-overlapping: walk them in step
+  let i = 0;
+  let j = 0;
+  while (i < mine.length && j < theirs.length) {
+    const start = Math.max(mine[i].start.getTime(), theirs[j].start.getTime());
+    const end = Math.min(mine[i].end.getTime(), theirs[j].end.getTime());
+    if (end - start >= minLength) {
+      overlaps.push({ start: new Date(start), end: new Date(end) });
+    }
+    if (mine[i].end < theirs[j].end) i++;
+    else j++;
+  }
+  return overlaps;
+};
+
+/**
+ * Time windows in which both users are available, long enough for a call.
+ */
+export const findOverlappingSlots = (
+  a: AvailabilityOwner,
+  b: AvailabilityOwner,
+  from: Date = new Date(),
+  days: number = AVAILABILITY_SETTINGS.horizonDays
+): TimeSlot[] =>
+  intersectSlots(
+    expandAvailability(a, from, days),
+    expandAvailability(b, from, days)
+  );
+
+const sumMinutes = (slots: TimeSlot[]) =>
+  slots.reduce(
+    (total, slot) =>
+      total + (slot.end.getTime() - slot.start.getTime()) / MINUTE_MS,
+    0
+  );
+
+/**
+ * Total minutes of shared availability, used by the matcher.
+ */
+export const getOverlapMinutes = (
+  a: AvailabilityOwner,
+  b: AvailabilityOwner,
+  from: Date = new Date()
+): number => sumMinutes(findOverlappingSlots(a, b, from));
+
+/**
+ * `getOverlapMinutes` for a planning pass that compares many pairs: each
+ * owner's availability is expanded once and reused for every pair.
+ */
+export const createOverlapCalculator = (from: Date = new Date()) => {
+  const expanded = new WeakMap<AvailabilityOwner, TimeSlot[]>();
+  const expand = (owner: AvailabilityOwner) => {
+    let slots = expanded.get(owner);
+    if (!slots) {
+      slots = expandAvailability(owner, from);
+      expanded.set(owner, slots);
+    }
+    return slots;
+  };
+  return (a: AvailabilityOwner, b: AvailabilityOwner): number =>
+    sumMinutes(intersectSlots(expand(a), expand(b)));
+};
+
+/**
+ * The first shared slots of two users, suggested after they are matched.
+ */
+export const suggestSlots = (
+  a: AvailabilityOwner,
+  b: AvailabilityOwner,
+  from: Date = new Date()
+): TimeSlot[] =>
+  findOverlappingSlots(a, b, from).slice(
+    0,
+    AVAILABILITY_SETTINGS.maxSuggestedSlots
+  );
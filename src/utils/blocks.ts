@@ -0,0 +1,66 @@
+// src/utils/blocks.ts
+import { ClientSession } from "mongoose";
+import UserBlock from "../models/UserBlock";
+
+/**
+ * Ids of every user that `userId` blocked or was blocked by.
+ */
+export const getBlockedUserIds = async (
+  userId: string,
+  session?: ClientSession
+): Promise<string[]> => {
+  const blocks = await UserBlock.find({
+    $or: [{ blocker: userId }, { blocked: userId }],
+  })
+    .select("blocker blocked")
+    .session(session || null)
+    .lean();
+
+  return blocks.map((block) =>
+    block.blocker.toString() === userId
+      ? block.blocked.toString()
+      : block.blocker.toString()
+  );
+};
+
+/**
+ * Whether either user blocked the other.
+ */
+export const isBlockedPair = async (
+  userId: string,
+  otherUserId: string
+): Promise<boolean> => {
+  const block = await UserBlock.exists({
+    $or: [
+      { blocker: userId, blocked: otherUserId },
+      { blocker: otherUserId, blocked: userId },
+    ],
+  });
+  return Boolean(block);
+};
+
+/**
+ * Blocks within a group of users, as user id -> ids they blocked.
+ */
+export const getBlocksAmong = async (
+  userIds: string[],
+  session?: ClientSession
+): Promise<Map<string, string[]>> => {
+  const blocks = await UserBlock.find({
+    blocker: { $in: userIds },
+    blocked: { $in: userIds },
+  })
+    .select("blocker blocked")
+    .session(session || null)
+    .lean();
+
+  const blocked = new Map<string, string[]>();
+  for (const block of blocks) {
+    const blocker = block.blocker.toString();
+    blocked.set(blocker, [
+      ...(blocked.get(blocker) || []),
+      block.blocked.toString(),
+    ]);
+  }
+  return blocked;
+};
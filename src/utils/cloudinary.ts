@@ -11,4 +11,17 @@ cloudinary.config({
   secure: true,
 });
 
+/**
+ * Derives the public id of an asset from its delivery URL, e.g.
+ * `.../upload/v1712/relate15/profile_pictures/abc.jpg` →
+ * `relate15/profile_pictures/abc`. Used for assets uploaded before public
+ * ids were stored.
+ */
+export const getPublicIdFromUrl = (url: string): string | null => {
+  const match =
+    url.match(/\/upload\/(?:.*?\/)?v\d+\/(.+)\.[a-z0-9]+$/i) ||
+    url.match(/\/upload\/(.+)\.[a-z0-9]+$/i);
+  return match ? match[1] : null;
+};
+
 export default cloudinary;
@@ -0,0 +1,13 @@
+// src/utils/config.ts
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Reads a numeric setting from the environment, falling back to a default
+ * when it is missing or not a number.
+ */
+export const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && !isNaN(value) ? value : fallback;
+};
@@ -0,0 +1,244 @@
+// src/utils/dateProposals.ts
+// Date proposal threads: each matched user can offer several slots, accept
+// one of the partner's slots, or counter with slots of their own.
+import { ClientSession } from "mongoose";
+import Queue, { IQueue } from "../models/Queue";
+import DateProposalThread, {
+  IDateProposalThread,
+} from "../models/DateProposalThread";
+import { runInTransaction } from "./transaction";
+import { envNumber } from "./config";
+import { transitionEntries } from "./queueStateMachine";
+import { io } from "../ws";
+
+export const MAX_SLOTS_PER_PROPOSAL = envNumber("DATE_PROPOSAL_MAX_SLOTS", 10);
+
+const ACTIVE_MATCH_STATES = ["matched", "booked"];
+
+/**
+ * The user's current match. The newest entry wins if there are several.
+ */
+async function getActiveMatch(userId: string, session?: ClientSession) {
+  const entry = await Queue.findOne({
+    user: userId,
+    status: { $in: ACTIVE_MATCH_STATES },
+  })
+    .sort("-createdAt")
+    .session(session || null);
+  if (!entry?.matchedWith) {
+    throw { status: 400, message: "No active match." };
+  }
+  return { entry, partnerId: entry.matchedWith.toString() };
+}
+
+/**
+ * The thread of the current match: the newest thread of the pair that was
+ * started after the match was made.
+ */
+async function findThread(
+  userId: string,
+  partnerId: string,
+  entry: IQueue,
+  session?: ClientSession
+) {
+  return DateProposalThread.findOne({
+    participants: { $all: [userId, partnerId] },
+    createdAt: { $gte: entry.get("createdAt") },
+  })
+    .sort("-createdAt")
+    .session(session || null);
+}
+
+/**
+ * Shapes a thread for one of its participants.
+ */
+export function toThreadView(
+  thread: IDateProposalThread | null,
+  viewerId: string
+) {
+  if (!thread) return null;
+  const proposals = thread.proposals.map((proposal) => ({
+    id: proposal._id.toString(),
+    proposedBy: proposal.proposedBy.toString(),
+    mine: proposal.proposedBy.toString() === viewerId,
+    slots: proposal.slots,
+    status: proposal.status,
+    respondsTo: proposal.respondsTo?.toString() || null,
+    acceptedSlot: proposal.acceptedSlot || null,
+    createdAt: proposal.createdAt,
+  }));
+  const pending = (mine: boolean) =>
+    proposals.find((p) => p.status === "pending" && p.mine === mine) || null;
+
+  return {
+    id: thread.id,
+    status: thread.status,
+    appointment: thread.appointment || null,
+    myPendingProposal: pending(true),
+    partnerPendingProposal: pending(false),
+    proposals,
+  };
+}
+
+/**
+ * Sends each participant their view of the thread.
+ */
+function emitThreadUpdate(
+  thread: IDateProposalThread,
+  state: string,
+  userId: string,
+  partnerId: string
+) {
+  for (const [viewer, matchedUserId] of [
+    [userId, partnerId],
+    [partnerId, userId],
+  ]) {
+    io?.to(viewer).emit("queueUpdated", {
+      state,
+      matchedUserId,
+      appointment: thread.appointment || null,
+      dateProposals: toThreadView(thread, viewer),
+    });
+  }
+}
+
+/**
+ * Offers one or more slots to the partner. A pending proposal from the
+ * partner is marked as countered; the user's own pending proposal is
+ * withdrawn.
+ */
+export const proposeDates = async (userId: string, slots: Date[]) => {
+  const { thread, partnerId } = await runInTransaction(async (session) => {
+    const { entry, partnerId } = await getActiveMatch(userId, session);
+    if (entry.status === "booked") {
+      throw { status: 400, message: "The appointment is already booked." };
+    }
+
+    const thread =
+      (await findThread(userId, partnerId, entry, session)) ||
+      new DateProposalThread({ participants: [userId, partnerId] });
+
+    let respondsTo;
+    for (const proposal of thread.proposals) {
+      if (proposal.status !== "pending") continue;
+      if (proposal.proposedBy.toString() === userId) {
+        proposal.status = "withdrawn";
+      } else {
+        proposal.status = "countered";
+        respondsTo = proposal._id;
+      }
+    }
+    thread.proposals.push({ proposedBy: userId, slots, respondsTo });
+    await thread.save({ session });
+    return { thread, partnerId };
+  });
+
+  emitThreadUpdate(thread, "matched", userId, partnerId);
+  return {
+    state: "matched",
+    message: "Dates proposed. Awaiting a response from the other user.",
+    matchedUserId: partnerId,
+    dateProposals: toThreadView(thread, userId),
+  };
+};
+
+/**
+ * Accepts one slot of the partner's pending proposal and books it for both
+ * users.
+ */
+export const acceptDateProposal = async (
+  userId: string,
+  proposalId: string,
+  slot: Date
+) => {
+  const { thread, partnerId } = await runInTransaction(async (session) => {
+    const { entry, partnerId } = await getActiveMatch(userId, session);
+    const thread = await findThread(userId, partnerId, entry, session);
+    const proposal = thread?.proposals.id(proposalId);
+    if (!proposal || proposal.proposedBy.toString() !== partnerId) {
+      throw { status: 404, message: "Proposal not found." };
+    }
+    if (proposal.status !== "pending") {
+      throw { status: 400, message: "This proposal is no longer open." };
+    }
+    if (!proposal.slots.some((s) => s.getTime() === slot.getTime())) {
+      throw { status: 400, message: "Pick one of the proposed slots." };
+    }
+
+    proposal.status = "accepted";
+    proposal.acceptedSlot = slot;
+    thread.status = "accepted";
+    thread.appointment = slot;
+    await thread.save({ session });
+
+    await transitionEntries(
+      {
+        $or: [
+          { user: userId, matchedWith: partnerId },
+          { user: partnerId, matchedWith: userId },
+        ],
+      },
+      "book",
+      { actor: userId, reason: "date_proposal_accepted", session },
+      { appointment: slot }
+    );
+    return { thread, partnerId };
+  });
+
+  emitThreadUpdate(thread, "booked", userId, partnerId);
+  return {
+    state: "booked",
+    message: "Date accepted. Appointment booked.",
+    appointment: slot,
+    matchedUserId: partnerId,
+    dateProposals: toThreadView(thread, userId),
+  };
+};
+
+/**
+ * Single-date shorthand kept for older clients: accepts the date if the
+ * partner's pending proposal offers it, otherwise proposes it.
+ */
+export const proposeOrAcceptDate = async (userId: string, date: Date) => {
+  const { entry, partnerId } = await getActiveMatch(userId);
+  const thread = await findThread(userId, partnerId, entry);
+  const offered = thread?.proposals.find(
+    (proposal) =>
+      proposal.status === "pending" &&
+      proposal.proposedBy.toString() === partnerId &&
+      proposal.slots.some((s) => s.getTime() === date.getTime())
+  );
+
+  return offered
+    ? acceptDateProposal(userId, offered._id.toString(), date)
+    : proposeDates(userId, [date]);
+};
+
+/**
+ * Current scheduling state of the user's match.
+ */
+export const getDateProposalState = async (userId: string) => {
+  const entry = await Queue.findOne({
+    user: userId,
+    status: { $in: ACTIVE_MATCH_STATES },
+  }).sort("-createdAt");
+  if (!entry?.matchedWith) {
+    return {
+      state: "idle",
+      message: "No active match or date proposal available.",
+    };
+  }
+
+  const partnerId = entry.matchedWith.toString();
+  const view = toThreadView(await findThread(userId, partnerId, entry), userId);
+  return {
+    state: entry.status,
+    message: "Current proposal status retrieved.",
+    appointment: entry.appointment || null,
+    matchedUserId: partnerId,
+    // Kept for older clients: first slot of each side's pending proposal
+    myProposedDate: view?.myPendingProposal?.slots[0] || null,
+    theirProposedDate: view?.partnerPendingProposal?.slots[0] || null,
+    dateProposals: view,
+  };
+};
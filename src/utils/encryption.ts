@@ -0,0 +1,34 @@
+// src/utils/encryption.ts
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+const MESSAGE_SECRET_KEY = Buffer.from(process.env.MESSAGE_SECRET_KEY!, "hex");
+const IV_LENGTH = 16;
+
+/**
+ * Encrypts a message before storing it in DB.
+ */
+export function encryptText(text: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-cbc", MESSAGE_SECRET_KEY, iv);
+  let encrypted = cipher.update(text, "utf8", "hex");
+  encrypted += cipher.final("hex");
+  return `${iv.toString("hex")}:${encrypted}`;
+}
+
+/**
+ * Decrypts a message from the database.
+ */
+export function decryptText(encryptedText: string): string {
+  const [ivHex, encrypted] = encryptedText.split(":");
+  const iv = Buffer.from(ivHex, "hex");
+  const decipher = crypto.createDecipheriv(
+    "aes-256-cbc",
+    MESSAGE_SECRET_KEY,
+    iv
+  );
+  let decrypted = decipher.update(encrypted, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+  return decrypted;
+}
@@ -0,0 +1,286 @@
+// src/utils/feedback.ts
+// Post-call feedback: pending requests are created when an appointment is
+// confirmed, participants are prompted once the call time has passed, and
+// submitted feedback is aggregated for admins and the matcher.
+import mongoose, { ClientSession } from "mongoose";
+import CallFeedback, { ICallFeedback } from "../models/CallFeedback";
+import Notification from "../models/Notifications";
+import { encryptText, decryptText } from "./encryption";
+import { envNumber } from "./config";
+import logger from "./logger";
+import { io } from "../ws";
+
+export const FEEDBACK_SETTINGS = {
+  promptDelayMinutes: envNumber("FEEDBACK_PROMPT_DELAY_MINUTES", 15),
+  checkIntervalMs: envNumber("FEEDBACK_PROMPT_INTERVAL_MS", 60 * 1000),
+  minRatingsForAverage: envNumber("FEEDBACK_MIN_RATINGS", 3),
+};
+
+const REVIEWEE_FIELDS = "name profilePictureUrl";
+
+export interface FeedbackSummary {
+  userId: string;
+  count: number;
+  averageRating: number;
+  wouldMeetAgainRate: number; // Share of reviewers who would meet again
+}
+
+/**
+ * Creates a pending feedback request for every participant about every
+ * other participant of the call.
+ */
+export const requestFeedback = async (
+  participants: string[],
+  scheduledFor: Date,
+  session?: ClientSession
+) => {
+  const requests = participants.flatMap((reviewer) =>
+    participants
+      .filter((reviewee) => reviewee !== reviewer)
+      .map((reviewee) => ({ reviewer, reviewee, scheduledFor }))
+  );
+  await CallFeedback.create(requests, { session, ordered: true });
+};
+
+/**
+ * Notifies reviewers whose call ended. Every request is prompted once.
+ * Returns the number of prompts sent.
+ */
+export const promptDueFeedback = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const due = await CallFeedback.find({
+    status: "pending",
+    promptedAt: null,
+    scheduledFor: {
+      $lte: new Date(
+        now.getTime() - FEEDBACK_SETTINGS.promptDelayMinutes * 60 * 1000
+      ),
+    },
+  }).populate("reviewee", "name");
+
+  let prompted = 0;
+  for (const request of due) {
+    // Claim the prompt so overlapping runs don't notify twice
+    const claimed = await CallFeedback.findOneAndUpdate(
+      { _id: request._id, promptedAt: null },
+      { promptedAt: now }
+    );
+    if (!claimed) continue;
+
+    const reviewee = request.reviewee as any;
+    const notification = await Notification.create({
+      user: request.reviewer,
+      message: `How was your call with ${
+        reviewee?.name || "your match"
+      }? Share your feedback.`,
+      type: "feedback_request",
+    });
+    io?.to(request.reviewer.toString()).emit("notification", notification);
+    io?.to(request.reviewer.toString()).emit("feedbackRequested", {
+      feedbackId: request.id,
+      reviewee: reviewee ? { id: reviewee.id, name: reviewee.name } : null,
+      scheduledFor: request.scheduledFor,
+    });
+    prompted++;
+  }
+  return prompted;
+};
+
+const toView = (feedback: ICallFeedback) => ({
+  id: feedback.id,
+  reviewee: feedback.reviewee,
+  scheduledFor: feedback.scheduledFor,
+  status: feedback.status,
+  rating: feedback.rating,
+  wouldMeetAgain: feedback.wouldMeetAgain,
+  notes: feedback.notes ? decryptText(feedback.notes) : undefined,
+  submittedAt: feedback.submittedAt,
+});
+
+/**
+ * Feedback requests the user can answer now (their call time has passed).
+ */
+export const listPendingFeedback = async (userId: string) => {
+  const pending = await CallFeedback.find({
+    reviewer: userId,
+    status: "pending",
+    scheduledFor: { $lte: new Date() },
+  })
+    .populate("reviewee", REVIEWEE_FIELDS)
+    .sort("-scheduledFor");
+  return pending.map(toView);
+};
+
+/**
+ * Feedback the user submitted, including their private notes.
+ */
+export const listSubmittedFeedback = async (userId: string) => {
+  const submitted = await CallFeedback.find({
+    reviewer: userId,
+    status: "submitted",
+  })
+    .populate("reviewee", REVIEWEE_FIELDS)
+    .sort("-submittedAt");
+  return submitted.map(toView);
+};
+
+/**
+ * Records the user's answer to a feedback request. Feedback can be given
+ * once, after the call's scheduled time.
+ */
+export const submitFeedback = async (
+  userId: string,
+  feedbackId: string,
+  answer: { rating: number; wouldMeetAgain: boolean; notes?: string }
+) => {
+  const now = new Date();
+  const feedback = await CallFeedback.findOneAndUpdate(
+    {
+      _id: feedbackId,
+      reviewer: userId,
+      status: "pending",
+      scheduledFor: { $lte: now },
+    },
+    {
+      status: "submitted",
+      rating: answer.rating,
+      wouldMeetAgain: answer.wouldMeetAgain,
+      ...(answer.notes && { notes: encryptText(answer.notes) }),
+      submittedAt: now,
+    },
+    { new: true, runValidators: true }
+  ).populate("reviewee", REVIEWEE_FIELDS);
+
+  if (!feedback) {
+    const existing = await CallFeedback.findOne({
+      _id: feedbackId,
+      reviewer: userId,
+    });
+    if (!existing) {
+      throw { status: 404, message: "Feedback request not found." };
+    }
+    if (existing.status === "submitted") {
+      throw { status: 409, message: "Feedback was already submitted." };
+    }
+    throw { status: 400, message: "The call hasn't taken place yet." };
+  }
+  return toView(feedback);
+};
+
+/**
+ * Ratings received, aggregated per user. Notes are never included.
+ * Pass `userIds` to limit the summary to those users.
+ */
+export const getFeedbackSummaries = async (
+  userIds?: string[],
+  session?: ClientSession
+): Promise<FeedbackSummary[]> => {
+  const rows = await CallFeedback.aggregate([
+    {
+      $match: {
+        status: "submitted",
+        ...(userIds && {
+          reviewee: {
+            $in: userIds.map((id) => new mongoose.Types.ObjectId(id)),
+          },
+        }),
+      },
+    },
+    {
+      $group: {
+        _id: "$reviewee",
+        count: { $sum: 1 },
+        averageRating: { $avg: "$rating" },
+        wouldMeetAgainRate: {
+          $avg: { $cond: ["$wouldMeetAgain", 1, 0] },
+        },
+      },
+    },
+  ]).session(session || null);
+  return rows.map((row) => ({
+    userId: row._id.toString(),
+    count: row.count,
+    averageRating: Math.round(row.averageRating * 100) / 100,
+    wouldMeetAgainRate: Math.round(row.wouldMeetAgainRate * 100) / 100,
+  }));
+};
+
+/**
+ * Whether the user and each person they reviewed or were reviewed by want
+ * to meet again, from -1 (neither would) to 1 (both would).
+ */
+export const getMeetAgainPreferences = async (
+  userId: string,
+  session?: ClientSession
+): Promise<Record<string, number>> => {
+  const feedback = await CallFeedback.find({
+    status: "submitted",
+    $or: [{ reviewer: userId }, { reviewee: userId }],
+  })
+    .select("reviewer reviewee wouldMeetAgain")
+    .session(session || null)
+    .lean();
+
+  const votes: Record<string, number[]> = {};
+  for (const entry of feedback) {
+    const other =
+      entry.reviewer.toString() === userId
+        ? entry.reviewee.toString()
+        : entry.reviewer.toString();
+    (votes[other] ||= []).push(entry.wouldMeetAgain ? 1 : -1);
+  }
+  return Object.fromEntries(
+    Object.entries(votes).map(([other, values]) => [
+      other,
+      values.reduce((sum, value) => sum + value, 0) / values.length,
+    ])
+  );
+};
+
+/**
+ * Average rating received per user, for users with enough ratings to be
+ * meaningful (FEEDBACK_MIN_RATINGS).
+ */
+export const getAverageRatings = async (
+  userIds: string[],
+  session?: ClientSession
+): Promise<Record<string, number>> => {
+  const summaries = await getFeedbackSummaries(userIds, session);
+  return Object.fromEntries(
+    summaries
+      .filter(
+        (summary) => summary.count >= FEEDBACK_SETTINGS.minRatingsForAverage
+      )
+      .map((summary) => [summary.userId, summary.averageRating])
+  );
+};
+
+let promptTimer: NodeJS.Timeout | null = null;
+let prompting = false;
+
+/**
+ * Starts the background prompter. Runs are never overlapping.
+ */
+export const startFeedbackPrompter = () => {
+  if (promptTimer) return;
+
+  promptTimer = setInterval(async () => {
+    if (prompting) return;
+    prompting = true;
+    try {
+      const count = await promptDueFeedback();
+      if (count) logger.info("Sent feedback prompts", { count });
+    } catch (error) {
+      logger.error("Feedback prompt run failed", { error });
+    } finally {
+      prompting = false;
+    }
+  }, FEEDBACK_SETTINGS.checkIntervalMs);
+  promptTimer.unref();
+};
+
+export const stopFeedbackPrompter = () => {
+  if (promptTimer) clearInterval(promptTimer);
+  promptTimer = null;
+};
@@ -0,0 +1,208 @@
+// src/utils/loginThrottle.ts
+import LoginAttempt from "../models/LoginAttempt";
+import User from "../models/User";
+import Notification from "../models/Notifications";
+import { envNumber } from "./config";
+import logger from "./logger";
+import { io } from "../ws";
+
+/**
+ * Failed-login throttling.
+ * - Counters are kept per email and per IP.
+ * - After `backoffAfter` failures every further attempt must wait twice as
+ *   long as the previous one (progressive backoff).
+ * - After `maxFailures` the key is locked for `lockoutSeconds`.
+ * - Attempts are counted before the credentials are checked, so parallel
+ *   guesses are all counted.
+ */
+const SETTINGS = {
+  email: {
+    maxFailures: envNumber("LOGIN_EMAIL_MAX_FAILURES", 5),
+    backoffAfter: envNumber("LOGIN_EMAIL_BACKOFF_AFTER", 3),
+  },
+  ip: {
+    maxFailures: envNumber("LOGIN_IP_MAX_FAILURES", 20),
+    backoffAfter: envNumber("LOGIN_IP_BACKOFF_AFTER", 10),
+  },
+  windowSeconds: envNumber("LOGIN_FAILURE_WINDOW_SECONDS", 15 * 60),
+  lockoutSeconds: envNumber("LOGIN_LOCKOUT_SECONDS", 15 * 60),
+  baseDelaySeconds: envNumber("LOGIN_BACKOFF_BASE_SECONDS", 1),
+  maxDelaySeconds: envNumber("LOGIN_BACKOFF_MAX_SECONDS", 60),
+};
+
+type KeyKind = "email" | "ip";
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  locked: boolean;
+  retryAfter: number; // seconds
+}
+
+const emailKey = (email: string) =>
+  `email:${(email || "").trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip || "unknown"}`;
+
+/**
+ * Computes how long a key still has to wait before its next attempt.
+ */
+async function getKeyStatus(key: string, kind: KeyKind) {
+  const attempt = await LoginAttempt.findOne({ key }).lean();
+  const now = Date.now();
+  if (!attempt) return { waitMs: 0, locked: false };
+
+  if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+    return { waitMs: attempt.lockedUntil.getTime() - now, locked: true };
+  }
+  if (attempt.lastFailureAt.getTime() < now - SETTINGS.windowSeconds * 1000) {
+    return { waitMs: 0, locked: false };
+  }
+
+  const { backoffAfter } = SETTINGS[kind];
+  if (attempt.failures < backoffAfter) return { waitMs: 0, locked: false };
+
+  const delaySeconds = Math.min(
+    SETTINGS.baseDelaySeconds * 2 ** (attempt.failures - backoffAfter),
+    SETTINGS.maxDelaySeconds
+  );
+  const nextAllowedAt = attempt.lastFailureAt.getTime() + delaySeconds * 1000;
+  return { waitMs: Math.max(nextAllowedAt - now, 0), locked: false };
+}
+
+/**
+ * Counts an attempt for one key and returns the new count.
+ * - A counter whose window or lockout has passed starts over.
+ * - The increment is a single atomic update, so parallel attempts each get
+ *   their own count and can't slip past the limit together.
+ * - The attempt that reaches `maxFailures` locks the key.
+ */
+async function countKeyAttempt(key: string, kind: KeyKind) {
+  const now = new Date();
+  const expiresAt = new Date(
+    now.getTime() +
+      Math.max(SETTINGS.windowSeconds, SETTINGS.lockoutSeconds) * 1000
+  );
+
+  // Clearing `lockedUntil` and the increment below both move the document
+  // out of this filter, so concurrent attempts reset it at most once
+  await LoginAttempt.updateOne(
+    {
+      key,
+      $or: [
+        {
+          lastFailureAt: {
+            $lt: new Date(now.getTime() - SETTINGS.windowSeconds * 1000),
+          },
+        },
+        { lockedUntil: { $lte: now } },
+      ],
+    },
+    { failures: 0, $unset: { lockedUntil: 1 } }
+  );
+
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { key },
+    { $inc: { failures: 1 }, $set: { lastFailureAt: now, expiresAt } },
+    { upsert: true, new: true }
+  );
+
+  if (attempt.failures === SETTINGS[kind].maxFailures) {
+    await LoginAttempt.updateOne(
+      { key },
+      {
+        lockedUntil: new Date(now.getTime() + SETTINGS.lockoutSeconds * 1000),
+      }
+    );
+  }
+  return attempt.failures;
+}
+
+/**
+ * Tells the account owner their account was locked.
+ */
+async function notifyLockout(email: string) {
+  const user = await User.findOne({ email }).select("id");
+  if (!user) return;
+
+  const minutes = Math.ceil(SETTINGS.lockoutSeconds / 60);
+  const notification = await Notification.create({
+    user: user.id,
+    message: `Your account was locked for ${minutes} minutes after too many failed login attempts. If this wasn't you, consider resetting your password.`,
+    type: "account_lockout",
+  });
+  io?.to(user.id.toString()).emit("notification", notification);
+}
+
+/**
+ * Checks whether a login attempt for this email/IP may proceed right now.
+ */
+export const checkLoginAllowed = async (
+  email: string,
+  ip: string
+): Promise<ThrottleStatus> => {
+  const [byEmail, byIp] = await Promise.all([
+    getKeyStatus(emailKey(email), "email"),
+    getKeyStatus(ipKey(ip), "ip"),
+  ]);
+  const waitMs = Math.max(byEmail.waitMs, byIp.waitMs);
+
+  return {
+    allowed: waitMs === 0,
+    locked: byEmail.locked || byIp.locked,
+    retryAfter: Math.ceil(waitMs / 1000),
+  };
+};
+
+/**
+ * Counts a login attempt for both the email and the IP. Call it before the
+ * credentials are checked; a successful login takes it back with
+ * `recordLoginSuccess`. Attempts past the limit are refused outright.
+ */
+export const recordLoginAttempt = async (
+  email: string,
+  ip: string
+): Promise<ThrottleStatus> => {
+  const [emailFailures, ipFailures] = await Promise.all([
+    countKeyAttempt(emailKey(email), "email"),
+    countKeyAttempt(ipKey(ip), "ip"),
+  ]);
+
+  if (emailFailures === SETTINGS.email.maxFailures) {
+    logger.warn("Account locked after repeated login failures", { email });
+    try {
+      await notifyLockout(email);
+    } catch (error) {
+      logger.error("Sending lockout notification failed", { error });
+    }
+  }
+
+  const overLimit =
+    emailFailures > SETTINGS.email.maxFailures ||
+    ipFailures > SETTINGS.ip.maxFailures;
+  return {
+    allowed: !overLimit,
+    locked: overLimit,
+    retryAfter: overLimit ? SETTINGS.lockoutSeconds : 0,
+  };
+};
+
+/**
+ * Clears the email counter after a successful login. The IP counter is left
+ * to decay so one valid account can't be used to reset it.
+ */
+export const resetLoginFailures = async (email: string) => {
+  await LoginAttempt.deleteOne({ key: emailKey(email) });
+};
+
+/**
+ * Takes back the attempt counted for a successful login: the email counter
+ * is cleared and the IP counter only loses this one attempt.
+ */
+export const recordLoginSuccess = async (email: string, ip: string) => {
+  await Promise.all([
+    resetLoginFailures(email),
+    LoginAttempt.updateOne(
+      { key: ipKey(ip), failures: { $gt: 0 } },
+      { $inc: { failures: -1 } }
+    ),
+  ]);
+};
@@ -0,0 +1,76 @@
+// src/utils/mailer.ts
+import fs from "fs/promises";
+import path from "path";
+import dotenv from "dotenv";
+import logger from "./logger";
+
+dotenv.config();
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything able to deliver a message. Production transports (SMTP, SES, ...)
+ * implement this and are installed with `setMailTransport`.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs every message instead of sending it. Default for local development.
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    logger.info("📧 Outgoing mail", {
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Writes every message as a JSON file into an outbox directory.
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random()
+      .toString(36)
+      .substring(2, 9)}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+const createDefaultTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileTransport(process.env.MAIL_OUTBOX_DIR || "logs/mail");
+    case "console":
+    default:
+      return new ConsoleTransport();
+  }
+};
+
+let transport: MailTransport = createDefaultTransport();
+
+/**
+ * Replace the active transport (e.g. with an SMTP implementation).
+ */
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send(message);
+};
@@ -0,0 +1,230 @@
+// src/utils/oidc.ts
+// OpenID Connect relying party: authorization code flow with PKCE.
+// Works against any provider that publishes discovery metadata, including the
+// local stand-in IdP in src/dev/localIdp.ts (`pnpm idp:local`, then point
+// OIDC_ISSUER at it).
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+import { Role, isRole, ROLES } from "./permissions";
+
+dotenv.config();
+
+export const OIDC_STATE_EXPIRATION = 10 * 60; // 10 minutes
+const METADATA_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+  auth_time?: number;
+  [claim: string]: unknown;
+}
+
+const config = {
+  issuer: process.env.OIDC_ISSUER,
+  clientId: process.env.OIDC_CLIENT_ID,
+  clientSecret: process.env.OIDC_CLIENT_SECRET,
+  redirectUri: process.env.OIDC_REDIRECT_URI,
+  scope: process.env.OIDC_SCOPE || "openid email profile",
+  roleClaim: process.env.OIDC_ROLE_CLAIM || "groups",
+  // e.g. {"relate15-admins":"admin","relate15-moderators":"moderator"}
+  roleMap: JSON.parse(process.env.OIDC_ROLE_MAP || "{}") as Record<
+    string,
+    string
+  >,
+  interestsClaim: process.env.OIDC_INTERESTS_CLAIM || "interests",
+};
+
+export const isOidcEnabled = (): boolean =>
+  Boolean(config.issuer && config.clientId && config.redirectUri);
+
+export const getOidcIssuer = (): string => config.issuer;
+
+let metadataCache: { metadata: ProviderMetadata; fetchedAt: number } | null =
+  null;
+let jwksCache: { keys: Array<Record<string, any>>; fetchedAt: number } | null =
+  null;
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Loads (and caches) the provider's discovery document.
+ */
+async function getProviderMetadata(): Promise<ProviderMetadata> {
+  if (
+    metadataCache &&
+    Date.now() - metadataCache.fetchedAt < METADATA_CACHE_TTL
+  ) {
+    return metadataCache.metadata;
+  }
+  const issuer = config.issuer.replace(/\/$/, "");
+  const metadata = await fetchJson<ProviderMetadata>(
+    `${issuer}/.well-known/openid-configuration`
+  );
+  metadataCache = { metadata, fetchedAt: Date.now() };
+  return metadata;
+}
+
+/**
+ * Finds the provider's signing key for `kid`, refetching the JWKS once if
+ * the key is unknown (the provider may have rotated its keys).
+ */
+async function getSigningKey(kid: string | undefined) {
+  const metadata = await getProviderMetadata();
+  const findKey = () =>
+    jwksCache?.keys.find((key) => !kid || key.kid === kid) || null;
+
+  let jwk =
+    jwksCache && Date.now() - jwksCache.fetchedAt < METADATA_CACHE_TTL
+      ? findKey()
+      : null;
+  if (!jwk) {
+    const { keys } = await fetchJson<{ keys: Array<Record<string, any>> }>(
+      metadata.jwks_uri
+    );
+    jwksCache = { keys, fetchedAt: Date.now() };
+    jwk = findKey();
+  }
+  if (!jwk) throw new Error("No matching signing key at the identity provider");
+
+  return crypto.createPublicKey({
+    key: jwk as crypto.JsonWebKey,
+    format: "jwk",
+  });
+}
+
+const base64url = (buffer: Buffer) => buffer.toString("base64url");
+
+/**
+ * Creates the per-login secrets: state, nonce and the PKCE verifier.
+ */
+export const createAuthorizationSecrets = () => ({
+  state: base64url(crypto.randomBytes(32)),
+  nonce: base64url(crypto.randomBytes(32)),
+  codeVerifier: base64url(crypto.randomBytes(48)),
+});
+
+/**
+ * Builds the URL that sends the browser to the identity provider.
+ * `forceLogin` asks the provider to authenticate the user again even if
+ * they have a session there.
+ */
+export const buildAuthorizationUrl = async (
+  secrets: {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+  },
+  options: { forceLogin?: boolean } = {}
+): Promise<string> => {
+  const metadata = await getProviderMetadata();
+  const codeChallenge = base64url(
+    crypto.createHash("sha256").update(secrets.codeVerifier).digest()
+  );
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scope,
+    state: secrets.state,
+    nonce: secrets.nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+  if (options.forceLogin) {
+    params.set("prompt", "login");
+    params.set("max_age", "0");
+  }
+  return `${metadata.authorization_endpoint}?${params.toString()}`;
+};
+
+/**
+ * Redeems the authorization code and returns the verified ID token claims.
+ */
+export const exchangeCodeForClaims = async (
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const metadata = await getProviderMetadata();
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (config.clientSecret) body.set("client_secret", config.clientSecret);
+
+  const tokens = await fetchJson<{ id_token?: string }>(
+    metadata.token_endpoint,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: body.toString(),
+    }
+  );
+  if (!tokens.id_token) {
+    throw new Error("Identity provider did not return an ID token");
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const key = await getSigningKey(decoded?.header?.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ["RS256", "ES256", "PS256"],
+    issuer: metadata.issuer,
+    audience: config.clientId,
+  }) as OidcClaims;
+
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+  return claims;
+};
+
+/**
+ * Maps the configured role claim to a local role. Once a role map is
+ * configured the provider is authoritative: users in no mapped group get
+ * "user", so removing someone from a group demotes them on next login.
+ * Returns null when no role map is configured.
+ */
+export const mapClaimsToRole = (claims: OidcClaims): Role | null => {
+  if (!Object.keys(config.roleMap).length) return null;
+  const raw = claims[config.roleClaim];
+  const values = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  const mapped = values
+    .map((value) => config.roleMap[String(value)])
+    .filter(isRole);
+  if (!mapped.length) return "user";
+  // Highest role wins (ROLES is ordered from least to most privileged)
+  return mapped.sort((a, b) => ROLES.indexOf(b) - ROLES.indexOf(a))[0];
+};
+
+/**
+ * Reads interests from the configured claim (array or comma-separated).
+ */
+export const mapClaimsToInterests = (claims: OidcClaims): string[] | null => {
+  const raw = claims[config.interestsClaim];
+  const list = Array.isArray(raw)
+    ? raw.map(String)
+    : typeof raw === "string"
+    ? raw.split(",")
+    : null;
+  return list ? list.map((i) => i.trim()).filter(Boolean) : null;
+};
@@ -0,0 +1,91 @@
+// src/utils/passwordPolicy.ts
+import fs from "fs";
+import path from "path";
+import { envNumber } from "./config";
+
+const MIN_LENGTH = envNumber("PASSWORD_MIN_LENGTH", 10);
+const MAX_LENGTH = 128;
+const BREACHED_LIST_PATH = path.join(
+  __dirname,
+  "../data/breached-passwords.txt"
+);
+
+let breachedPasswords: Set<string> | null = null;
+
+/**
+ * Loads the bundled breached-password list once, on first use.
+ */
+function getBreachedPasswords(): Set<string> {
+  if (!breachedPasswords) {
+    const lines = fs.readFileSync(BREACHED_LIST_PATH, "utf8").split(/\r?\n/);
+    breachedPasswords = new Set(
+      lines
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith("#"))
+    );
+  }
+  return breachedPasswords;
+}
+
+export const isBreachedPassword = (password: string): boolean =>
+  getBreachedPasswords().has(password.toLowerCase());
+
+/**
+ * Checks a candidate password against the policy.
+ * Returns a list of problems; an empty list means the password is acceptable.
+ */
+export const checkPasswordPolicy = (
+  password: string,
+  context: { email?: string; name?: string } = {}
+): string[] => {
+  const problems: string[] = [];
+  if (typeof password !== "string") return ["Password is required."];
+
+  if (password.length < MIN_LENGTH) {
+    problems.push(`Password must be at least ${MIN_LENGTH} characters.`);
+  }
+  if (password.length > MAX_LENGTH) {
+    problems.push(`Password must be at most ${MAX_LENGTH} characters.`);
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[^a-zA-Z]/.test(password)) {
+    problems.push(
+      "Password must contain letters and at least one number or symbol."
+    );
+  }
+
+  const lower = password.toLowerCase();
+  const emailName = context.email?.split("@")[0]?.toLowerCase();
+  if (emailName && emailName.length >= 3 && lower.includes(emailName)) {
+    problems.push("Password cannot contain your email address.");
+  }
+  const name = context.name?.trim().toLowerCase();
+  if (name && name.length >= 3 && lower.includes(name)) {
+    problems.push("Password cannot contain your name.");
+  }
+
+  if (isBreachedPassword(password)) {
+    problems.push(
+      "This password has appeared in a data breach. Please choose another."
+    );
+  }
+
+  return problems;
+};
+
+/**
+ * express-validator custom validator enforcing the password policy.
+ * Uses `email`/`name` from the request body, or the signed-in user.
+ */
+export const passwordPolicyValidator = (
+  value: string,
+  { req }: { req: any }
+): boolean => {
+  const problems = checkPasswordPolicy(value, {
+    email: req.body?.email || req.user?.email,
+    name: req.body?.name || req.user?.name,
+  });
+  if (problems.length) {
+    throw new Error(problems.join(" "));
+  }
+  return true;
+};
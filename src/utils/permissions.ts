@@ -0,0 +1,76 @@
+// src/utils/permissions.ts
+
+export const ROLES = ["user", "moderator", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "users:read"
+  | "users:suspend"
+  | "users:manage_roles"
+  | "reports:review"
+  | "rounds:manage"
+  | "feedback:read";
+
+/**
+ * Policy table: which permissions each role is granted.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [],
+  moderator: ["users:read", "users:suspend", "reports:review", "feedback:read"],
+  admin: [
+    "users:read",
+    "users:suspend",
+    "users:manage_roles",
+    "reports:review",
+    "rounds:manage",
+    "feedback:read",
+  ],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === "string" && (ROLES as readonly string[]).includes(value);
+
+/**
+ * Maps stored role values to a known role: legacy capitalized values (e.g.
+ * "User") are lowercased and anything unknown (e.g. "recruiter", sent by
+ * clients before roles were enforced) becomes "user".
+ */
+export const normalizeRole = (role: unknown): Role => {
+  const normalized = typeof role === "string" ? role.toLowerCase() : role;
+  return isRole(normalized) ? normalized : "user";
+};
+
+/**
+ * Position of a role in ROLES: higher ranks are more privileged.
+ */
+export const roleRank = (role: unknown): number =>
+  ROLES.indexOf(normalizeRole(role));
+
+/**
+ * Checks a role against the policy table. Unknown roles get no permissions;
+ * legacy capitalized values (e.g. "User") are normalized first.
+ */
+export const hasPermission = (
+  role: string | undefined,
+  permission: Permission
+): boolean => {
+  const normalized = role?.toLowerCase();
+  if (!isRole(normalized)) return false;
+  return ROLE_PERMISSIONS[normalized].includes(permission);
+};
+
+/**
+ * Scopes that can be granted to personal access tokens. Session (JWT)
+ * requests are not limited by scopes.
+ */
+export const TOKEN_SCOPES = [
+  "queue:read",
+  "queue:write",
+  "calendar:read",
+  "calendar:write",
+] as const;
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export const isTokenScope = (value: unknown): value is TokenScope =>
+  typeof value === "string" &&
+  (TOKEN_SCOPES as readonly string[]).includes(value);
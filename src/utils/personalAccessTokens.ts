@@ -0,0 +1,46 @@
+// src/utils/personalAccessTokens.ts
+import crypto from "crypto";
+import PersonalAccessToken from "../models/PersonalAccessToken";
+import { hashToken } from "./auth";
+
+export const PAT_PREFIX = "r15_pat_";
+const LAST_USED_INTERVAL = 60; // Write lastUsedAt at most once a minute
+
+export const isPersonalAccessToken = (token: string): boolean =>
+  token.startsWith(PAT_PREFIX);
+
+/**
+ * Generates a new token. Returns the plain token (shown once), its hash and
+ * a short display prefix.
+ */
+export const generatePersonalAccessToken = () => {
+  const token = `${PAT_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, PAT_PREFIX.length + 6),
+  };
+};
+
+/**
+ * Looks up an active (not revoked, not expired) token by its plain value.
+ */
+export const findActivePersonalAccessToken = async (token: string) => {
+  const now = new Date();
+  const pat = await PersonalAccessToken.findOne({
+    tokenHash: hashToken(token),
+    revokedAt: null,
+    expiresAt: { $gt: now },
+  });
+  if (!pat) return null;
+
+  if (
+    !pat.lastUsedAt ||
+    pat.lastUsedAt.getTime() < now.getTime() - LAST_USED_INTERVAL * 1000
+  ) {
+    PersonalAccessToken.updateOne({ _id: pat.id }, { lastUsedAt: now }).catch(
+      (error) => console.error("Failed to record token usage:", error)
+    );
+  }
+  return pat;
+};
@@ -0,0 +1,344 @@
+// src/utils/pods.ts
+// Pod (group match) operations shared by the REST controllers and the
+// Socket.IO handlers: group chat, the pod's calendar event, completing and
+// leaving.
+import mongoose, { ClientSession } from "mongoose";
+import Pod, { IPod } from "../models/Pod";
+import Chat from "../models/ChatMessage";
+import CalendarEvent from "../models/CalendarEvent";
+import User from "../models/User";
+import Notification, { INotification } from "../models/Notifications";
+import { encryptText, decryptText } from "./encryption";
+import { runInTransaction } from "./transaction";
+import { generateUniqueVideoLink } from "./videoLink";
+import { requestFeedback } from "./feedback";
+import { transitionEntries, transitionEntry } from "./queueStateMachine";
+import { io } from "../ws";
+
+const MEMBER_FIELDS = "name email bio interests profilePictureUrl";
+const SENDER_FIELDS = "name profilePictureUrl";
+
+/**
+ * Loads an active pod the user belongs to.
+ */
+async function getMemberPod(userId: string, podId: string) {
+  const pod = await Pod.findOne({
+    _id: podId,
+    members: userId,
+    status: "active",
+  });
+  if (!pod) {
+    throw { status: 404, message: "Pod not found." };
+  }
+  return pod;
+}
+
+const emitToMembers = (pod: IPod, event: string, payload: unknown) => {
+  for (const member of pod.members) {
+    io?.to(member.toString()).emit(event, payload);
+  }
+};
+
+const emitNotifications = (notifications: INotification[]) => {
+  for (const notification of notifications) {
+    io?.to(notification.user.toString()).emit("notification", notification);
+  }
+};
+
+/**
+ * The user's active pod with its members and scheduled call, or null.
+ */
+export const getActivePod = async (userId: string) => {
+  return Pod.findOne({ members: userId, status: "active" })
+    .populate("members", MEMBER_FIELDS)
+    .populate("event")
+    .lean();
+};
+
+/**
+ * Decrypted history of the pod's group chat.
+ */
+export const getPodMessages = async (userId: string, podId: string) => {
+  const pod = await getMemberPod(userId, podId);
+  const chat = await Chat.findById(pod.chat)
+    .populate("messages.sender", SENDER_FIELDS)
+    .lean();
+
+  return (chat?.messages || []).map((msg: any) => ({
+    id: msg._id.toString(),
+    sender: {
+      id: msg.sender?._id?.toString(),
+      name: msg.sender?.name || "Unknown",
+      profilePictureUrl: msg.sender?.profilePictureUrl || "",
+    },
+    content: decryptText(msg.content),
+    createdAt: msg.createdAt,
+    read: msg.read,
+  }));
+};
+
+/**
+ * Posts a message to the pod's group chat and pushes it to every member.
+ */
+export const sendPodMessage = async (
+  userId: string,
+  podId: string,
+  content: string
+) => {
+  const pod = await getMemberPod(userId, podId);
+  const messageId = new mongoose.Types.ObjectId();
+  const createdAt = new Date();
+
+  await Chat.updateOne(
+    { _id: pod.chat },
+    {
+      $push: {
+        messages: {
+          _id: messageId,
+          sender: userId,
+          content: encryptText(content),
+          createdAt,
+          read: false,
+        },
+      },
+      lastMessageAt: createdAt,
+    }
+  );
+
+  const sender = await User.findById(userId).select(SENDER_FIELDS).lean();
+  const message = {
+    id: messageId.toString(),
+    podId: pod.id,
+    sender: {
+      id: userId,
+      name: sender?.name || "Unknown",
+      profilePictureUrl: sender?.profilePictureUrl || "",
+    },
+    content,
+    createdAt,
+    read: false,
+  };
+  emitToMembers(pod, "newPodMessage", message);
+  return message;
+};
+
+/**
+ * Schedules the pod's group call: one calendar event with every member as
+ * an attendee. Rescheduling moves the existing event and resets the
+ * confirmations. All members' queue entries become `booked`.
+ */
+export const schedulePodEvent = async (
+  user: { id: string; name: string },
+  podId: string,
+  scheduledTime: Date
+) => {
+  const { pod, event, notifications } = await runInTransaction(
+    async (session) => {
+      const pod = await Pod.findOne({
+        _id: podId,
+        members: user.id,
+        status: "active",
+      }).session(session);
+      if (!pod) {
+        throw { status: 404, message: "Pod not found." };
+      }
+
+      let event = pod.event
+        ? await CalendarEvent.findById(pod.event).session(session)
+        : null;
+      if (event) {
+        event.scheduledTime = scheduledTime;
+        event.status = "pending";
+        event.confirmedBy = [];
+        event.attendees = pod.members;
+        await event.save({ session });
+      } else {
+        [event] = await CalendarEvent.create(
+          [
+            {
+              organizer: user.id,
+              pod: pod.id,
+              attendees: pod.members,
+              scheduledTime,
+              status: "pending",
+              videoLink: generateUniqueVideoLink(),
+              confirmedBy: [],
+            },
+          ],
+          { session }
+        );
+        pod.event = event._id as mongoose.Types.ObjectId;
+        await pod.save({ session });
+      }
+
+      await transitionEntries(
+        { pod: pod.id },
+        "book",
+        { actor: user.id, reason: "pod_call_scheduled", session },
+        { appointment: scheduledTime }
+      );
+
+      const notifications = await Notification.create(
+        pod.members
+          .filter((member) => !member.equals(user.id))
+          .map((member) => ({
+            user: member,
+            message: `${
+              user.name
+            } scheduled your group call for ${scheduledTime.toISOString()}`,
+            type: "call_request",
+          })),
+        { session, ordered: true }
+      );
+      return { pod, event, notifications };
+    }
+  );
+
+  emitToMembers(pod, "queueUpdated", {
+    state: "booked",
+    podId: pod.id,
+    appointment: scheduledTime,
+    event,
+  });
+  emitNotifications(notifications);
+  return event;
+};
+
+/**
+ * Closes a pod whose group call every member confirmed: the pod is marked
+ * completed and all members' queue entries are completed, so they can book
+ * again. Runs inside the caller's transaction.
+ */
+export const completePod = async (
+  podId: string,
+  actorId: string,
+  session: ClientSession
+) => {
+  const pod = await Pod.findOneAndUpdate(
+    { _id: podId, status: "active" },
+    { status: "completed", completedAt: new Date() },
+    { new: true, session }
+  );
+  if (!pod) {
+    return null;
+  }
+
+  await transitionEntries({ pod: pod.id }, "complete", {
+    actor: actorId,
+    reason: "pod_call_confirmed",
+    session,
+  });
+  return pod;
+};
+
+/**
+ * Removes the user from their active pod. The pod keeps going while at
+ * least two members remain; otherwise it is disbanded. If everyone left
+ * had already confirmed the group call, the call is confirmed and the pod
+ * completed.
+ */
+export const leavePod = async (
+  user: { id: string; name: string },
+  reason?: string
+) => {
+  const { pod, disbanded, completedEvent, notifications } =
+    await runInTransaction(async (session) => {
+      const pod = await Pod.findOne({
+        members: user.id,
+        status: "active",
+      }).session(session);
+      if (!pod) {
+        throw { status: 400, message: "You are not in a pod." };
+      }
+
+      pod.members = pod.members.filter((member) => !member.equals(user.id));
+      const disbanded = pod.members.length < 2;
+      if (disbanded) {
+        pod.status = "disbanded";
+        pod.disbandedAt = new Date();
+      }
+      await pod.save({ session });
+
+      await transitionEntry({ pod: pod.id, user: user.id }, "cancel", {
+        actor: user.id,
+        reason: reason || "left_pod",
+        session,
+      });
+      if (disbanded) {
+        await transitionEntries({ pod: pod.id }, "release", {
+          actor: user.id,
+          reason: "pod_disbanded",
+          session,
+        });
+      }
+      await Chat.updateOne(
+        { _id: pod.chat },
+        { $pull: { participants: user.id } },
+        { session }
+      );
+      let completedEvent = null;
+      if (pod.event) {
+        const event = await CalendarEvent.findByIdAndUpdate(
+          pod.event,
+          { $pull: { attendees: user.id, confirmedBy: user.id } },
+          { new: true, session }
+        );
+        // The leaver may have been the only one left to confirm
+        const attendees = event?.attendees.map((id) => id.toString()) || [];
+        if (
+          !disbanded &&
+          event?.status === "pending" &&
+          attendees.length &&
+          attendees.every((id) => event.confirmedBy.some((c) => c.equals(id)))
+        ) {
+          event.status = "confirmed";
+          await event.save({ session });
+          await requestFeedback(attendees, event.scheduledTime, session);
+          await completePod(pod.id, user.id, session);
+          completedEvent = event;
+        }
+      }
+
+      const message = disbanded
+        ? `${user.name} left your pod, so it was closed.`
+        : `${user.name} left your pod${reason ? `: ${reason}` : "."}`;
+      const notifications = await Notification.create(
+        pod.members.map((member) => ({
+          user: member,
+          message,
+          type: disbanded ? "pod_disbanded" : "pod_member_left",
+        })),
+        { session, ordered: true }
+      );
+      return { pod, disbanded, completedEvent, notifications };
+    });
+
+  const result = { state: "idle", message: "You left the pod." };
+  io?.to(user.id).emit("queueUpdated", { ...result, reason: "left_pod" });
+  emitToMembers(
+    pod,
+    "podUpdated",
+    disbanded
+      ? { podId: pod.id, status: "disbanded" }
+      : { podId: pod.id, status: "active", leftUserId: user.id }
+  );
+  if (disbanded) {
+    emitToMembers(pod, "queueUpdated", {
+      state: "idle",
+      message: "Your pod was closed.",
+      reason: "pod_disbanded",
+    });
+  }
+  if (completedEvent) {
+    emitToMembers(pod, "callConfirmed", completedEvent);
+    emitToMembers(pod, "podUpdated", { podId: pod.id, status: "completed" });
+    emitToMembers(pod, "queueUpdated", {
+      state: "idle",
+      message: "Your group call is confirmed.",
+      reason: "pod_completed",
+    });
+  }
+  emitNotifications(notifications);
+
+  return { ...result, podId: pod.id };
+};
@@ -0,0 +1,188 @@
+// src/utils/queueActions.ts
+// Queue operations shared by the REST controller and the Socket.IO handlers.
+import Queue from "../models/Queue";
+import User from "../models/User";
+import Notification from "../models/Notifications";
+import { findMatch, recordMatch } from "../matching";
+import { runInTransaction } from "./transaction";
+import { getWaitingExpiry } from "./queueExpiry";
+import { suggestSlots } from "./availability";
+import {
+  ACTIVE_BOOKING_MESSAGE,
+  ACTIVE_QUEUE_STATES,
+  createEntry,
+  transitionEntries,
+  transitionEntry,
+} from "./queueStateMachine";
+import { leavePod } from "./pods";
+import { io } from "../ws";
+
+const ACTIVE_MATCH_STATES = ["matched", "booked"];
+
+/**
+ * Books a call: matches the user with the best waiting candidate, or adds
+ * them to the waiting queue. Refused while the user has an active entry.
+ */
+export const bookCall = async (userId: string) => {
+  const result = await runInTransaction(async (session) => {
+    const currentUser = await User.findById(userId).session(session);
+    if (!currentUser) {
+      throw { status: 404, message: "User not found" };
+    }
+    // Checked before claiming a partner; createEntry and the unique index
+    // still catch a concurrent booking
+    if (
+      await Queue.exists({
+        user: userId,
+        status: { $in: ACTIVE_QUEUE_STATES },
+      }).session(session)
+    ) {
+      throw { status: 400, message: ACTIVE_BOOKING_MESSAGE };
+    }
+
+    // Claims the partner's waiting entry (waiting -> matched)
+    const match = await findMatch(currentUser, session);
+
+    if (match) {
+      const { matchedUser } = match;
+
+      // Add each other to matches and bump the match counts
+      await recordMatch(userId, matchedUser.id, session);
+
+      await createEntry(
+        userId,
+        "match",
+        { matchedWith: matchedUser.id },
+        { actor: userId, reason: "matched_on_booking", session }
+      );
+
+      return {
+        state: "matched",
+        message: "Match found!",
+        matchedUser,
+        score: match.score,
+        strategy: match.strategy,
+        suggestedSlots: suggestSlots(currentUser, matchedUser),
+      };
+    }
+    // If no match, add user to the waiting queue
+    const queueEntry = await createEntry(
+      userId,
+      "join",
+      { expiresAt: getWaitingExpiry() },
+      { actor: userId, reason: "booked_call", session }
+    );
+    return {
+      state: "waiting",
+      message: "Added to queue",
+      expiresAt: queueEntry.expiresAt,
+    };
+  });
+
+  // Emit events after transaction completes
+  if (result.state === "matched" && result.matchedUser) {
+    io?.to(userId).to(result.matchedUser.id.toString()).emit("matchFound", {
+      matchedUser: result.matchedUser,
+      score: result.score,
+      strategy: result.strategy,
+      suggestedSlots: result.suggestedSlots,
+    });
+  } else {
+    io?.to(userId).emit("queueUpdated", {
+      state: "waiting",
+      expiresAt: result.expiresAt,
+    });
+  }
+  return result;
+};
+
+/**
+ * Removes the user's waiting entry from the queue.
+ */
+export const leaveQueue = async (userId: string) => {
+  const removed = await transitionEntry({ user: userId }, "leave", {
+    actor: userId,
+    reason: "left_queue",
+  });
+  if (!removed) {
+    throw { status: 400, message: "You are not waiting in the queue." };
+  }
+
+  const result = { state: "idle", message: "You left the queue." };
+  io?.to(userId).emit("queueUpdated", { ...result, reason: "left" });
+  return result;
+};
+
+/**
+ * Cancels the user's current match (matched or booked). Both sides' queue
+ * entries are removed in one transaction and the partner is notified.
+ * For a pod, the user leaves the pod instead.
+ */
+export const cancelMatch = async (
+  user: { id: string; name: string },
+  reason?: string
+) => {
+  // Group matches are left rather than cancelled for everyone
+  if (
+    await Queue.exists({
+      user: user.id,
+      status: { $in: ACTIVE_MATCH_STATES },
+      pod: { $ne: null },
+    })
+  ) {
+    return leavePod(user, reason);
+  }
+
+  const { partnerId, notification } = await runInTransaction(
+    async (session) => {
+      const queueEntry = await Queue.findOne({
+        user: user.id,
+        status: { $in: ACTIVE_MATCH_STATES },
+      }).session(session);
+      if (!queueEntry || !queueEntry.matchedWith) {
+        throw { status: 400, message: "No active match to cancel." };
+      }
+      const partnerId = queueEntry.matchedWith.toString();
+
+      await transitionEntries(
+        {
+          $or: [
+            { user: user.id, matchedWith: partnerId },
+            { user: partnerId, matchedWith: user.id },
+          ],
+        },
+        "cancel",
+        { actor: user.id, reason: reason || "match_cancelled", session }
+      );
+
+      const [notification] = await Notification.create(
+        [
+          {
+            user: partnerId,
+            message: reason
+              ? `${user.name} cancelled your match: ${reason}`
+              : `${user.name} cancelled your match.`,
+            type: "match_cancelled",
+          },
+        ],
+        { session }
+      );
+      return { partnerId, notification };
+    }
+  );
+
+  const result = { state: "idle", message: "Match cancelled." };
+  io?.to(user.id).emit("queueUpdated", { ...result, reason: "cancelled" });
+  io?.to(partnerId).emit("matchCancelled", {
+    cancelledBy: user.id,
+    reason: reason || null,
+  });
+  io?.to(partnerId).emit("queueUpdated", {
+    state: "idle",
+    message: `${user.name} cancelled the match.`,
+    reason: "partner_cancelled",
+  });
+  io?.to(partnerId).emit("notification", notification);
+
+  return { ...result, matchedUserId: partnerId };
+};
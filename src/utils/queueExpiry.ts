@@ -0,0 +1,138 @@
+// src/utils/queueExpiry.ts
+// Waiting queue entries expire after a configurable TTL so people who left
+// don't get matched hours later. A background sweeper removes expired
+// entries, or re-queues users who opted into `autoRequeue`.
+import Queue, { IQueue } from "../models/Queue";
+import User from "../models/User";
+import Notification from "../models/Notifications";
+import { envNumber } from "./config";
+import logger from "./logger";
+import { transitionEntry } from "./queueStateMachine";
+import { io } from "../ws";
+
+const SETTINGS = {
+  waitingTtlMinutes: envNumber("QUEUE_WAITING_TTL_MINUTES", 30),
+  sweepIntervalMs: envNumber("QUEUE_SWEEP_INTERVAL_MS", 60 * 1000),
+  maxRequeues: envNumber("QUEUE_MAX_REQUEUES", 3), // Per waiting entry
+};
+
+/**
+ * When a waiting entry created now should expire.
+ */
+export const getWaitingExpiry = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + SETTINGS.waitingTtlMinutes * 60 * 1000);
+
+const notifyUser = async (userId: string, message: string, type: string) => {
+  const notification = await Notification.create({
+    user: userId,
+    message,
+    type,
+  });
+  io?.to(userId).emit("notification", notification);
+};
+
+/**
+ * Expires (or re-queues) one waiting entry. The status is part of the
+ * filter so an entry that was matched in the meantime is left alone.
+ */
+async function expireEntry(entry: IQueue, now: Date) {
+  const userId = entry.user.toString();
+  const user = await User.findById(userId).select("autoRequeue");
+
+  if (user?.autoRequeue && (entry.requeueCount || 0) < SETTINGS.maxRequeues) {
+    const requeued = await transitionEntry(
+      { _id: entry._id },
+      "requeue",
+      { actor: null, reason: "auto_requeue" },
+      { expiresAt: getWaitingExpiry(now) }
+    );
+    if (!requeued) return;
+
+    io?.to(userId).emit("queueUpdated", {
+      state: "waiting",
+      requeued: true,
+      expiresAt: requeued.expiresAt,
+    });
+    await notifyUser(
+      userId,
+      "Nobody was available yet, so we kept your spot in the queue.",
+      "queue_requeued"
+    );
+    return;
+  }
+
+  const removed = await transitionEntry({ _id: entry._id }, "expire", {
+    actor: null,
+    reason: "waiting_ttl_elapsed",
+  });
+  if (!removed) return;
+
+  io?.to(userId).emit("queueUpdated", { state: "idle", reason: "expired" });
+  await notifyUser(
+    userId,
+    "Your spot in the queue expired because no match was found in time. Book a call again whenever you're ready.",
+    "queue_expired"
+  );
+}
+
+/**
+ * Expires every waiting entry past its TTL. Entries created before
+ * `expiresAt` existed fall back to their creation time.
+ * Returns the number of entries processed.
+ */
+export const sweepExpiredQueueEntries = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const legacyCutoff = new Date(
+    now.getTime() - SETTINGS.waitingTtlMinutes * 60 * 1000
+  );
+  const expired = await Queue.find({
+    status: "waiting",
+    $or: [
+      { expiresAt: { $lte: now } },
+      { expiresAt: null, createdAt: { $lte: legacyCutoff } },
+    ],
+  });
+
+  for (const entry of expired) {
+    try {
+      await expireEntry(entry, now);
+    } catch (error) {
+      logger.error("Expiring queue entry failed", {
+        entryId: entry.id,
+        error,
+      });
+    }
+  }
+  return expired.length;
+};
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/**
+ * Starts the background sweeper. Runs are never overlapping.
+ */
+export const startQueueSweeper = () => {
+  if (sweepTimer) return;
+
+  sweepTimer = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const count = await sweepExpiredQueueEntries();
+      if (count) logger.info("Expired waiting queue entries", { count });
+    } catch (error) {
+      logger.error("Queue sweep failed", { error });
+    } finally {
+      sweeping = false;
+    }
+  }, SETTINGS.sweepIntervalMs);
+  // Don't keep the process alive just for the sweeper
+  sweepTimer.unref();
+};
+
+export const stopQueueSweeper = () => {
+  if (sweepTimer) clearInterval(sweepTimer);
+  sweepTimer = null;
+};
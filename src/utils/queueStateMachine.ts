@@ -0,0 +1,233 @@
+// src/utils/queueStateMachine.ts
+// The queue state machine: the only code that changes queue entries.
+// Every change is a named transition that must be legal from the entry's
+// current state and pass its guard, and is written to the transition log.
+//
+//   idle ──join──▶ waiting ──match──▶ matched ──book──▶ booked
+//     └────────────match──────────────▲   │                │
+//   waiting ──leave/expire──▶ idle        └─skip/complete/cancel/release─▶ idle
+//
+// `idle` has no stored entry: transitions to idle remove the entry.
+import { ClientSession, FilterQuery, Types } from "mongoose";
+import Queue, { IQueue, QueueState } from "../models/Queue";
+import QueueTransition, { QueueEvent } from "../models/QueueTransition";
+
+export const ACTIVE_QUEUE_STATES: QueueState[] = [
+  "waiting",
+  "matched",
+  "booked",
+];
+
+export const QUEUE_TRANSITIONS: Record<
+  QueueEvent,
+  { from: QueueState[]; to: QueueState }
+> = {
+  join: { from: ["idle"], to: "waiting" },
+  match: { from: ["idle", "waiting"], to: "matched" },
+  unclaim: { from: ["matched"], to: "waiting" },
+  requeue: { from: ["waiting"], to: "waiting" },
+  expire: { from: ["waiting"], to: "idle" },
+  leave: { from: ["waiting"], to: "idle" },
+  book: { from: ["matched", "booked"], to: "booked" },
+  skip: { from: ["matched"], to: "idle" },
+  complete: { from: ["matched", "booked"], to: "idle" },
+  cancel: { from: ["matched", "booked"], to: "idle" },
+  release: { from: ["waiting", "matched", "booked"], to: "idle" },
+};
+
+/**
+ * Fields a transition may set besides the status.
+ */
+export interface QueueChanges {
+  matchedWith?: string | Types.ObjectId;
+  pod?: string | Types.ObjectId | null;
+  appointment?: Date;
+  expiresAt?: Date;
+  mode?: IQueue["mode"];
+  podSize?: number;
+}
+
+/**
+ * Who caused a transition and why. `actor` is null for system actions.
+ */
+export interface TransitionContext {
+  actor: string | null;
+  reason: string;
+  session?: ClientSession;
+}
+
+export const ACTIVE_BOOKING_MESSAGE =
+  "You already have an active booking. Complete your current call or cancel it before booking a new one.";
+
+/**
+ * Extra conditions per transition. Return an error message to refuse it.
+ */
+const GUARDS: Partial<
+  Record<QueueEvent, (changes: QueueChanges) => string | null>
+> = {
+  join: (changes) =>
+    changes.expiresAt ? null : "Waiting entries need an expiry time.",
+  match: (changes) =>
+    changes.matchedWith || changes.pod
+      ? null
+      : "A match needs a partner or a pod.",
+  requeue: (changes) =>
+    changes.expiresAt ? null : "Re-queuing needs a new expiry time.",
+};
+
+const checkGuard = (event: QueueEvent, changes: QueueChanges) => {
+  const refusal = GUARDS[event]?.(changes);
+  if (refusal) {
+    throw { status: 400, message: refusal };
+  }
+};
+
+const logTransition = async (
+  entry: IQueue,
+  event: QueueEvent,
+  from: QueueState,
+  context: TransitionContext
+) => {
+  await QueueTransition.create(
+    [
+      {
+        entry: entry._id,
+        user: entry.user,
+        event,
+        from,
+        to: QUEUE_TRANSITIONS[event].to,
+        actor: context.actor || undefined,
+        reason: context.reason,
+      },
+    ],
+    { session: context.session }
+  );
+};
+
+/**
+ * Creates an entry for an idle user (`join` or `match`). Refused if the
+ * user already has an active entry.
+ */
+export const createEntry = async (
+  userId: string,
+  event: "join" | "match",
+  changes: QueueChanges,
+  context: TransitionContext
+): Promise<IQueue> => {
+  checkGuard(event, changes);
+  const active = await Queue.exists({
+    user: userId,
+    status: { $in: ACTIVE_QUEUE_STATES },
+  }).session(context.session || null);
+  if (active) {
+    throw { status: 400, message: ACTIVE_BOOKING_MESSAGE };
+  }
+
+  // The unique index on active entries catches a concurrent create that
+  // got past the check above
+  const [entry] = await Queue.create(
+    [{ ...changes, user: userId, status: QUEUE_TRANSITIONS[event].to }],
+    { session: context.session }
+  ).catch((error) => {
+    if (error?.code === 11000) {
+      throw { status: 400, message: ACTIVE_BOOKING_MESSAGE };
+    }
+    throw error;
+  });
+  await logTransition(entry, event, "idle", context);
+  return entry;
+};
+
+/**
+ * Applies `event` to the entry matching `filter`, if it is in a state the
+ * event is legal from. Returns the updated entry (or the removed one for
+ * transitions to idle), or null if no entry could make the transition.
+ */
+export const transitionEntry = async (
+  filter: FilterQuery<IQueue>,
+  event: QueueEvent,
+  context: TransitionContext,
+  changes: QueueChanges = {}
+): Promise<IQueue | null> => {
+  checkGuard(event, changes);
+  const { from, to } = QUEUE_TRANSITIONS[event];
+  const session = context.session || null;
+
+  const current = await Queue.findOne({
+    $and: [filter, { status: { $in: from } }],
+  }).session(session);
+  if (!current) return null;
+
+  // Compare-and-swap on the status, so a concurrent transition wins cleanly
+  const guard = { _id: current._id, status: current.status };
+  const updated =
+    to === "idle"
+      ? await Queue.findOneAndDelete(guard, { session })
+      : await Queue.findOneAndUpdate(
+          guard,
+          {
+            ...changes,
+            status: to,
+            ...(event === "requeue" && { $inc: { requeueCount: 1 } }),
+          },
+          { new: true, session }
+        );
+  if (!updated) return null;
+
+  await logTransition(updated, event, current.status, context);
+  return updated;
+};
+
+/**
+ * Applies `event` to every entry matching `filter` that can make the
+ * transition. Returns the transitioned entries.
+ */
+export const transitionEntries = async (
+  filter: FilterQuery<IQueue>,
+  event: QueueEvent,
+  context: TransitionContext,
+  changes: QueueChanges = {}
+): Promise<IQueue[]> => {
+  const candidates = await Queue.find({
+    $and: [filter, { status: { $in: QUEUE_TRANSITIONS[event].from } }],
+  })
+    .select("_id")
+    .session(context.session || null);
+
+  const transitioned: IQueue[] = [];
+  for (const { _id } of candidates) {
+    const entry = await transitionEntry({ _id }, event, context, changes);
+    if (entry) transitioned.push(entry);
+  }
+  return transitioned;
+};
+
+/**
+ * Moves a user into a match: their waiting entry if they have one,
+ * otherwise a new entry.
+ */
+export const matchUser = async (
+  userId: string,
+  changes: QueueChanges,
+  context: TransitionContext
+): Promise<IQueue> => {
+  const claimed = await transitionEntry(
+    { user: userId, status: "waiting" },
+    "match",
+    context,
+    changes
+  );
+  return claimed || createEntry(userId, "match", changes, context);
+};
+
+/**
+ * Erases a user's entries and transition log when their account is
+ * deleted. The only exception to the append-only log.
+ */
+export const eraseUserEntries = async (
+  userId: string,
+  session?: ClientSession
+) => {
+  await Queue.deleteMany({ user: userId }, { session });
+  await QueueTransition.deleteMany({ user: userId }, { session });
+};
@@ -0,0 +1,65 @@
+// src/utils/roundScheduler.ts
+// Publishes matching rounds with `autoPublish` once their cutoff has passed.
+import MatchingRound from "../models/MatchingRound";
+import { publishRound } from "../matching/rounds";
+import { envNumber } from "./config";
+import logger from "./logger";
+
+const CHECK_INTERVAL_MS = envNumber("ROUND_SCHEDULER_INTERVAL_MS", 60 * 1000);
+
+/**
+ * Publishes every due round. Returns the number of rounds published.
+ */
+export const publishDueRounds = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const due = await MatchingRound.find({
+    status: "open",
+    autoPublish: true,
+    cutoffAt: { $lte: now },
+  }).sort("cutoffAt");
+
+  let published = 0;
+  for (const round of due) {
+    try {
+      const { plan } = await publishRound(round.id);
+      logger.info("Published matching round", {
+        roundId: round.id,
+        pairs: plan.pairs.length,
+        unmatched: plan.unmatched.length,
+      });
+      published++;
+    } catch (error) {
+      logger.error("Publishing matching round failed", {
+        roundId: round.id,
+        error,
+      });
+    }
+  }
+  return published;
+};
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checking = false;
+
+export const startRoundScheduler = () => {
+  if (checkTimer) return;
+
+  checkTimer = setInterval(async () => {
+    if (checking) return;
+    checking = true;
+    try {
+      await publishDueRounds();
+    } catch (error) {
+      logger.error("Round scheduler run failed", { error });
+    } finally {
+      checking = false;
+    }
+  }, CHECK_INTERVAL_MS);
+  checkTimer.unref();
+};
+
+export const stopRoundScheduler = () => {
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+};
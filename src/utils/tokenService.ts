@@ -0,0 +1,136 @@
+// src/utils/tokenService.ts
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Every JWT the API issues goes through this module.
+ * - Tokens are HS256 signed and carry a `kid` header naming the key.
+ * - Several keys can be configured; the newest one whose `activeFrom` has
+ *   passed signs new tokens, the others keep verifying until `retireAt`.
+ * - `iss`/`aud` claims are set and checked on every token.
+ * - A `typ` claim keeps tokens issued for one purpose from being accepted
+ *   for another (e.g. an email link used as an access token).
+ */
+
+export type TokenType =
+  | "access"
+  | "email_verification"
+  | "2fa_challenge"
+  | "reauthentication";
+
+export interface SigningKey {
+  kid: string;
+  secret: string;
+  activeFrom?: Date; // Start signing with this key from this moment
+  retireAt?: Date; // Stop accepting tokens signed with this key
+}
+
+const ISSUER = process.env.JWT_ISSUER || "relate15";
+const AUDIENCE = process.env.JWT_AUDIENCE || "relate15-api";
+const ALGORITHM = "HS256";
+
+/**
+ * Reads the key ring from JWT_SIGNING_KEYS, a JSON array of
+ * `{ kid, secret, activeFrom?, retireAt? }`. A lone JWT_SECRET is accepted
+ * as a single key with kid "default".
+ */
+function loadSigningKeys(): SigningKey[] {
+  const raw = process.env.JWT_SIGNING_KEYS;
+  if (raw) {
+    const parsed = JSON.parse(raw) as Array<Record<string, string>>;
+    return parsed.map((key) => {
+      if (!key.kid || !key.secret) {
+        throw new Error("Every JWT signing key needs a kid and a secret");
+      }
+      return {
+        kid: key.kid,
+        secret: key.secret,
+        activeFrom: key.activeFrom ? new Date(key.activeFrom) : undefined,
+        retireAt: key.retireAt ? new Date(key.retireAt) : undefined,
+      };
+    });
+  }
+  if (process.env.JWT_SECRET) {
+    return [{ kid: "default", secret: process.env.JWT_SECRET }];
+  }
+  throw new Error("JWT_SIGNING_KEYS or JWT_SECRET must be configured");
+}
+
+let signingKeys = loadSigningKeys();
+
+/**
+ * Replaces the key ring, e.g. after fetching new keys from a secret store.
+ */
+export const setSigningKeys = (keys: SigningKey[]) => {
+  if (!keys.length) throw new Error("At least one signing key is required");
+  signingKeys = keys;
+};
+
+/**
+ * Picks the key that signs new tokens right now: the most recently
+ * activated, non-retired key.
+ */
+export const getActiveSigningKey = (now: Date = new Date()): SigningKey => {
+  const candidates = signingKeys
+    .filter((key) => !key.activeFrom || key.activeFrom <= now)
+    .filter((key) => !key.retireAt || key.retireAt > now)
+    .sort(
+      (a, b) => (a.activeFrom?.getTime() || 0) - (b.activeFrom?.getTime() || 0)
+    );
+  const key = candidates[candidates.length - 1];
+  if (!key) throw new Error("No active JWT signing key");
+  return key;
+};
+
+const findVerificationKey = (kid: string | undefined): SigningKey | null => {
+  const now = new Date();
+  const key = signingKeys.find((candidate) => candidate.kid === kid);
+  if (!key || (key.retireAt && key.retireAt <= now)) return null;
+  return key;
+};
+
+/**
+ * Signs a token of the given type.
+ */
+export const signToken = (
+  type: TokenType,
+  payload: Record<string, unknown>,
+  expiresIn: number
+): string => {
+  const key = getActiveSigningKey();
+  return jwt.sign({ ...payload, typ: type }, key.secret, {
+    algorithm: ALGORITHM,
+    expiresIn,
+    issuer: ISSUER,
+    audience: AUDIENCE,
+    keyid: key.kid,
+  });
+};
+
+/**
+ * Verifies signature, expiry, issuer, audience and token type.
+ * Throws a JsonWebTokenError/TokenExpiredError when anything is off.
+ */
+export const verifyToken = <T extends object>(
+  type: TokenType,
+  token: string
+): T & { exp: number; iat: number } => {
+  const decoded = jwt.decode(token, { complete: true });
+  const key = findVerificationKey(decoded?.header?.kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError("Unknown or retired signing key");
+  }
+
+  const payload = jwt.verify(token, key.secret, {
+    algorithms: [ALGORITHM],
+    issuer: ISSUER,
+    audience: AUDIENCE,
+  }) as T & { typ?: string; exp: number; iat: number };
+
+  if (payload.typ !== type) {
+    throw new jwt.JsonWebTokenError(`Expected a ${type} token`);
+  }
+  return payload;
+};
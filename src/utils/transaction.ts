@@ -0,0 +1,22 @@
+// src/utils/transaction.ts
+import mongoose from "mongoose";
+
+/**
+ * Runs a callback inside a MongoDB transaction.
+ */
+export async function runInTransaction<T>(
+  callback: (session: mongoose.ClientSession) => Promise<T>
+): Promise<T> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const result = await callback(session);
+    await session.commitTransaction();
+    return result;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
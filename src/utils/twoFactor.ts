@@ -0,0 +1,64 @@
+// src/utils/twoFactor.ts
+import crypto from "crypto";
+import User, { IUser } from "../models/User";
+import { hashToken } from "./auth";
+import { verifyTotp } from "./totp";
+
+export const BACKUP_CODE_COUNT = 10;
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "Relate15";
+
+/**
+ * Generates a fresh set of backup codes (e.g. "a1b2c-3d4e5").
+ * Returns the plain codes for the user and their hashes for storage.
+ */
+export const generateBackupCodes = () => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(code)) };
+};
+
+/**
+ * Loads a user together with the hidden two-factor fields.
+ */
+export const findUserWithTwoFactor = (userId: string) =>
+  User.findById(userId).select(
+    "+twoFactorSecret +twoFactorPendingSecret +twoFactorBackupCodes +twoFactorLastStep"
+  );
+
+/**
+ * Checks a TOTP code or backup code for a user with 2FA enabled.
+ * - TOTP codes can't be replayed within their validity window.
+ * - Backup codes are single use and removed once accepted.
+ * The user must have been loaded with `findUserWithTwoFactor`.
+ */
+export const consumeSecondFactor = async (
+  user: IUser,
+  code: string
+): Promise<boolean> => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret || !code) return false;
+
+  const normalized = code.trim().toLowerCase();
+  const step = verifyTotp(user.twoFactorSecret, normalized);
+  if (step !== null) {
+    const updated = await User.updateOne(
+      {
+        _id: user.id,
+        $or: [
+          { twoFactorLastStep: null },
+          { twoFactorLastStep: { $lt: step } },
+        ],
+      },
+      { twoFactorLastStep: step }
+    );
+    return updated.modifiedCount === 1;
+  }
+
+  // Pull the backup code atomically so it can only be used once
+  const updated = await User.updateOne(
+    { _id: user.id, twoFactorBackupCodes: hashToken(normalized) },
+    { $pull: { twoFactorBackupCodes: hashToken(normalized) } }
+  );
+  return updated.modifiedCount === 1;
+};
@@ -0,0 +1,9 @@
+// src/utils/videoLink.ts
+
+/**
+ * Generates a unique link to a video call room.
+ */
+export const generateUniqueVideoLink = (): string => {
+  const randomId = Math.random().toString(36).substring(2, 15);
+  return `${process.env.VIDEO_BASE_URL}/${randomId}`;
+};
@@ -5,41 +5,44 @@ import User, { IUser } from "../models/User";
 import Chat, { IMessage } from "../models/ChatMessage";
 import Queue from "../models/Queue";
 import { authenticateSocket } from "../middleware/authenticate";
-import crypto from "crypto";
+import { isEmailVerificationRequired } from "../middleware/requireVerifiedEmail";
+import { encryptText, decryptText } from "../utils/encryption";
+import { touchSession } from "../utils/auth";
+import { bookCall, leaveQueue, cancelMatch } from "../utils/queueActions";
+import { getBlockedUserIds, isBlockedPair } from "../utils/blocks";
+import { getPodMessages, sendPodMessage } from "../utils/pods";
 import dotenv from "dotenv";
 
 dotenv.config();
-const MESSAGE_SECRET_KEY = Buffer.from(process.env.MESSAGE_SECRET_KEY!, "hex");
-const IV_LENGTH = 16;
+
+export let io: SocketIOServer;
 
 /**
- * Encrypts a message before storing it in DB.
+ * Socket room shared by every connection opened with the same login session.
  */
-function encryptText(text: string): string {
-  const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv("aes-256-cbc", MESSAGE_SECRET_KEY, iv);
-  let encrypted = cipher.update(text, "utf8", "hex");
-  encrypted += cipher.final("hex");
-  return `${iv.toString("hex")}:${encrypted}`;
-}
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
 
 /**
- * Decrypts a message from the database.
+ * Force-disconnects every socket that authenticated with one of the sessions.
  */
-function decryptText(encryptedText: string): string {
-  const [ivHex, encrypted] = encryptedText.split(":");
-  const iv = Buffer.from(ivHex, "hex");
-  const decipher = crypto.createDecipheriv(
-    "aes-256-cbc",
-    MESSAGE_SECRET_KEY,
-    iv
-  );
-  let decrypted = decipher.update(encrypted, "hex", "utf8");
-  decrypted += decipher.final("utf8");
-  return decrypted;
-}
+export const disconnectSessionSockets = (sessionIds: string[]) => {
+  if (!io || !sessionIds.length) return;
+  io.in(sessionIds.map(sessionRoom)).disconnectSockets(true);
+};
 
-export let io: SocketIOServer;
+/**
+ * Makes each user's sockets leave the other's room, so events for one no
+ * longer reach the other (used when one blocks the other).
+ */
+export const separateUserSockets = async (userId: string, otherId: string) => {
+  if (!io) return;
+  const sockets = await io.in([userId, otherId]).fetchSockets();
+  for (const socket of sockets) {
+    const socketUserId = socket.data?.user?.id?.toString();
+    if (socketUserId === userId) socket.leave(otherId);
+    else if (socketUserId === otherId) socket.leave(userId);
+  }
+};
 
 export const initializeWebSocket = (server: http.Server) => {
   if (io) {
@@ -67,35 +70,54 @@ export const initializeWebSocket = (server: http.Server) => {
       }
       console.log(`✅ User ${user.id} connected via WebSocket`);
 
-      // Join user's personal room
+      // Join user's personal room and the room of the login session
       socket.join(user.id.toString());
+      const sessionId: string | undefined = socket.data.user.sessionId;
+      if (sessionId) {
+        socket.join(sessionRoom(sessionId));
+        touchSession(sessionId, {
+          ip: socket.handshake.address,
+          userAgent: socket.handshake.headers["user-agent"],
+        }).catch((error) =>
+          console.error("❌ Failed to record socket session:", error)
+        );
+      }
 
-      // Fetch user data & join matched rooms
-      const userData = await User.findById(user.id)
-        .populate("matches", "id name email profilePictureUrl")
-        .lean();
+      // Fetch user data & join matched rooms, except blocked users'
+      const [userData, blockedIds] = await Promise.all([
+        User.findById(user.id)
+          .populate("matches", "id name email profilePictureUrl")
+          .lean(),
+        getBlockedUserIds(user.id.toString()),
+      ]);
+      const matchRooms = (userData?.matches || [])
+        .map((match: any) => match._id.toString())
+        .filter((matchId: string) => !blockedIds.includes(matchId));
 
-      if (userData?.matches?.length) {
-        userData.matches.forEach((match: any) => {
-          socket.join(match._id.toString());
-        });
-      }
-      console.log(
-        `✅ User ${user.id} joined ${
-          userData?.matches?.length || 0
-        } match rooms`
-      );
+      matchRooms.forEach((matchId: string) => socket.join(matchId));
+      console.log(`✅ User ${user.id} joined ${matchRooms.length} match rooms`);
 
       /**
        * Handle `joinRoom` event when a user opens a chat.
        */
       socket.on("joinRoom", async (roomId) => {
-        console.log(`📢 User ${user.id} joined room: ${roomId}`);
-        socket.join(roomId);
-
         try {
+          if (
+            !mongoose.Types.ObjectId.isValid(roomId) ||
+            (await isBlockedPair(user.id, roomId))
+          ) {
+            socket.emit("error", {
+              message: "Chat not available with this user.",
+            });
+            return;
+          }
+
+          console.log(`📢 User ${user.id} joined room: ${roomId}`);
+          socket.join(roomId);
+
           const chat = await Chat.findOne({
             participants: { $all: [user.id, roomId] },
+            pod: null, // Pod chats are loaded with `joinPod`
           })
             .populate("messages.sender", "id name profilePictureUrl")
             .lean();
@@ -134,13 +156,28 @@ export const initializeWebSocket = (server: http.Server) => {
        */
       socket.on("sendMessage", async ({ receiverId, content }) => {
         try {
+          if (isEmailVerificationRequired() && !user.emailVerified) {
+            socket.emit("error", {
+              message: "Please verify your email address to use chat.",
+            });
+            return;
+          }
+
           if (!mongoose.Types.ObjectId.isValid(receiverId)) {
             throw new Error("Invalid receiver ID format");
           }
 
+          if (await isBlockedPair(user.id, receiverId)) {
+            socket.emit("error", {
+              message: "Chat not available with this user.",
+            });
+            return;
+          }
+
           const senderId = user.id;
           let chat = await Chat.findOne({
             participants: { $all: [senderId, receiverId] },
+            pod: null,
           });
 
           if (!chat) {
@@ -186,32 +223,106 @@ export const initializeWebSocket = (server: http.Server) => {
         }
       });
 
+      /**
+       * Load a pod's group chat history.
+       */
+      socket.on("joinPod", async ({ podId }) => {
+        try {
+          if (!mongoose.Types.ObjectId.isValid(podId)) {
+            throw { status: 400, message: "Invalid pod ID format" };
+          }
+          const history = await getPodMessages(user.id, podId);
+          socket.emit("podChatHistory", { podId, history });
+        } catch (error: any) {
+          console.error("❌ Error fetching pod chat history:", error);
+          socket.emit("error", {
+            message: error.status
+              ? error.message
+              : "Failed to fetch pod chat history",
+          });
+        }
+      });
+
+      /**
+       * Handle messages to a pod's group chat; delivered as `newPodMessage`.
+       */
+      socket.on("sendPodMessage", async ({ podId, content }) => {
+        try {
+          if (isEmailVerificationRequired() && !user.emailVerified) {
+            socket.emit("error", {
+              message: "Please verify your email address to use chat.",
+            });
+            return;
+          }
+          if (!mongoose.Types.ObjectId.isValid(podId)) {
+            throw { status: 400, message: "Invalid pod ID format" };
+          }
+          if (typeof content !== "string" || !content.trim()) {
+            throw { status: 400, message: "Content is required" };
+          }
+          await sendPodMessage(user.id, podId, content);
+        } catch (error: any) {
+          console.error("❌ Error sending pod message:", error);
+          socket.emit("error", {
+            message: error.status ? error.message : "Failed to send message",
+          });
+        }
+      });
+
       /**
        * Handle queue status updates
        */
       socket.on("joinQueue", async () => {
         try {
-          const existingEntry = await Queue.findOne({ user: user.id }).lean();
-
-          if (existingEntry) {
-            console.warn(`⚠️ User ${user.id} is already in queue`);
-            socket.emit("error", { message: "You are already in the queue." });
+          if (isEmailVerificationRequired() && !user.emailVerified) {
+            socket.emit("error", {
+              message: "Please verify your email address to join the queue.",
+            });
             return;
           }
 
-          await new Queue({
-            user: user.id,
-            status: "waiting",
-          }).save();
+          // Same checks and matching as POST /api/queue/book; the result
+          // is pushed as `matchFound` or `queueUpdated`
+          const result = await bookCall(user.id);
+          console.log(
+            `🔵 User ${user.id} joined the queue as '${result.state}'`
+          );
+          if (result.state === "waiting") {
+            io.emit("queueStatus", { state: "waiting" });
+          }
+        } catch (error: any) {
+          console.error("❌ Error joining queue:", error);
+          socket.emit("error", {
+            message: error.status ? error.message : "Failed to join queue",
+          });
+        }
+      });
 
-          console.log(`🔵 User ${user.id} added to queue as 'waiting'`);
+      socket.on("leaveQueue", async () => {
+        try {
+          await leaveQueue(user.id);
+          console.log(`🔵 User ${user.id} left the queue`);
+        } catch (error: any) {
+          console.error("❌ Error leaving queue:", error);
+          socket.emit("error", {
+            message: error.status ? error.message : "Failed to leave queue",
+          });
+        }
+      });
 
-          // Notify the user and others
-          socket.emit("queueUpdated", { state: "waiting" });
-          io.emit("queueStatus", { state: "waiting" });
-        } catch (error) {
-          console.error("❌ Error joining queue:", error);
-          socket.emit("error", "Failed to join queue");
+      socket.on("cancelMatch", async (payload?: { reason?: string }) => {
+        try {
+          const reason =
+            typeof payload?.reason === "string"
+              ? payload.reason.trim().slice(0, 500)
+              : undefined;
+          await cancelMatch({ id: user.id, name: user.name }, reason);
+          console.log(`🔵 User ${user.id} cancelled their match`);
+        } catch (error: any) {
+          console.error("❌ Error cancelling match:", error);
+          socket.emit("error", {
+            message: error.status ? error.message : "Failed to cancel match",
+          });
         }
       });
 
@@ -252,6 +363,7 @@ export const initializeWebSocket = (server: http.Server) => {
                   profilePictureUrl: matchedWith.profilePictureUrl,
                 }
               : undefined,
+            podId: queueEntry.pod?.toString(),
           });
         } catch (error) {
           console.error("❌ Error fetching queue status:", error);